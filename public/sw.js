@@ -0,0 +1,218 @@
+/**
+ * DoneZit service worker
+ *
+ * App shell: the build's files and everything in public/ are precached so
+ * the app loads offline. A new build installs alongside the old one and
+ * waits until the page accepts the update prompt.
+ *
+ * Reminder notifications: the page posts its schedule here, and the worker
+ * shows reminders that come due while no page is open, using notification
+ * triggers where supported and periodic background sync otherwise.
+ * Notification actions (snooze, mark done) are forwarded to an open page,
+ * or queued until the app is opened again.
+ */
+
+const DB_NAME = 'donezit-sw';
+const DB_VERSION = 1;
+const SNOOZE_MINUTES = 10;
+
+// Filled in at build time by the precache plugin in vite.config.ts
+const PRECACHE = { version: 'dev', files: [] };
+const CACHE_PREFIX = 'donezit-shell-';
+const CACHE_NAME = CACHE_PREFIX + PRECACHE.version;
+
+// ---------------------------------------------------------------- app shell
+
+self.addEventListener('install', event => {
+  event.waitUntil((async () => {
+    if (PRECACHE.files.length > 0) {
+      const cache = await caches.open(CACHE_NAME);
+      await cache.addAll(PRECACHE.files);
+    }
+    // The first worker takes over right away; updates wait for the page
+    if (!self.registration.active) await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names
+      .filter(name => name.startsWith(CACHE_PREFIX) && name !== CACHE_NAME)
+      .map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+/**
+ * Serve a byte range of a cached response; media elements ask for ranges
+ * and some browsers refuse to play a full 200 response
+ */
+const rangeResponse = async (request, response) => {
+  const match = /bytes=(\d*)-(\d*)/.exec(request.headers.get('range') || '');
+  if (!match) return response;
+  const body = await response.blob();
+  const start = Number(match[1] || 0);
+  const end = match[2] ? Math.min(Number(match[2]), body.size - 1) : body.size - 1;
+  return new Response(body.slice(start, end + 1), {
+    status: 206,
+    statusText: 'Partial Content',
+    headers: {
+      'Content-Type': response.headers.get('Content-Type') || '',
+      'Content-Range': `bytes ${start}-${end}/${body.size}`,
+      'Content-Length': String(end - start + 1),
+    },
+  });
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  // Nothing is cached in development, and other origins (Firebase) go straight through
+  if (PRECACHE.files.length === 0 || request.method !== 'GET') return;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    // Network first so deploys show up; the cached shell when offline
+    event.respondWith(
+      fetch(request).catch(async () => (await caches.match('/', { cacheName: CACHE_NAME })) || Response.error())
+    );
+    return;
+  }
+
+  if (!PRECACHE.files.includes(url.pathname)) return;
+  event.respondWith((async () => {
+    const cached = await caches.match(url.pathname, { cacheName: CACHE_NAME });
+    if (!cached) return fetch(request);
+    return request.headers.has('range') ? rangeResponse(request, cached) : cached;
+  })());
+});
+
+// ---------------------------------------------------------------- storage
+
+const openDb = () =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      // Scheduled reminders keyed by notification tag, and queued actions
+      request.result.createObjectStore('schedule', { keyPath: 'tag' });
+      request.result.createObjectStore('actions', { autoIncrement: true });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async (name, mode, run) => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(name, mode);
+    const result = run(tx.objectStore(name));
+    tx.oncomplete = () => resolve(result && 'result' in result ? result.result : undefined);
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+// ---------------------------------------------------------------- reminders
+
+const canTrigger = () => 'showTrigger' in Notification.prototype && 'TimestampTrigger' in self;
+
+const notify = (entry, trigger) =>
+  self.registration.showNotification(entry.title, {
+    body: entry.body,
+    tag: entry.tag,
+    data: entry.data,
+    icon: '/logo.png',
+    requireInteraction: true,
+    actions: [
+      { action: 'snooze', title: `Snooze ${SNOOZE_MINUTES} min` },
+      { action: 'done', title: 'Mark done' },
+    ],
+    ...(trigger ? { showTrigger: new self.TimestampTrigger(entry.at) } : {}),
+  });
+
+/**
+ * Show every scheduled reminder whose time has come and forget it
+ */
+const showDue = async () => {
+  const schedule = await withStore('schedule', 'readonly', store => store.getAll());
+  const due = schedule.filter(entry => entry.at <= Date.now());
+  await Promise.all(due.map(entry => notify(entry, false)));
+  await withStore('schedule', 'readwrite', store => due.forEach(entry => store.delete(entry.tag)));
+};
+
+/**
+ * Replace the schedule. With notification triggers the browser shows each
+ * reminder on time by itself; stale triggers are cancelled.
+ */
+const replaceSchedule = async reminders => {
+  await withStore('schedule', 'readwrite', store => {
+    store.clear();
+    reminders.forEach(entry => store.put(entry));
+  });
+
+  if (!canTrigger()) return;
+  const tags = new Set(reminders.map(entry => entry.tag));
+  const pending = await self.registration.getNotifications({ includeTriggered: true });
+  pending.forEach(n => {
+    if (n.showTrigger && !tags.has(n.tag)) n.close();
+  });
+  await Promise.all(reminders.filter(entry => entry.at > Date.now()).map(entry => notify(entry, true)));
+};
+
+self.addEventListener('message', event => {
+  const message = event.data || {};
+
+  if (message.type === 'skip-waiting') {
+    // The page accepted the update prompt
+    self.skipWaiting();
+  } else if (message.type === 'reminders:schedule') {
+    // Reminders scheduled here while the page handles them itself; the
+    // shared tag makes a second copy replace the first
+    event.waitUntil(replaceSchedule(message.reminders || []));
+  } else if (message.type === 'reminders:drain') {
+    event.waitUntil((async () => {
+      const actions = await withStore('actions', 'readonly', store => store.getAll());
+      actions.forEach(action => event.source && event.source.postMessage(action));
+      await withStore('actions', 'readwrite', store => store.clear());
+    })());
+  }
+});
+
+self.addEventListener('periodicsync', event => {
+  if (event.tag === 'reminders') event.waitUntil(showDue());
+});
+
+self.addEventListener('notificationclick', event => {
+  const notification = event.notification;
+  const { taskId, reminderId } = notification.data || {};
+  const action = event.action || 'open';
+  notification.close();
+  if (!taskId) return;
+
+  const message = { type: 'reminder-action', action, taskId, reminderId, at: Date.now() };
+
+  event.waitUntil((async () => {
+    if (action === 'snooze') {
+      // Reschedule here as well, so the snooze works with the app closed
+      const entry = {
+        tag: notification.tag,
+        title: notification.title,
+        body: notification.body,
+        data: notification.data,
+        at: Date.now() + SNOOZE_MINUTES * 60 * 1000,
+      };
+      await withStore('schedule', 'readwrite', store => store.put(entry));
+      if (canTrigger()) await notify(entry, true);
+    }
+
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    if (windows.length > 0) {
+      windows[0].postMessage(message);
+      if (action === 'open') await windows[0].focus();
+      return;
+    }
+
+    await withStore('actions', 'readwrite', store => store.add(message));
+    if (action === 'open') await self.clients.openWindow('/');
+  })());
+});
@@ -5,8 +5,14 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import { AuthProvider } from '@/contexts/AuthContext';
+import { TasksProvider } from '@/contexts/TasksContext';
 import Settings from "./pages/Settings";
+import CalendarPage from "./pages/Calendar";
+import TrashPage from "./pages/Trash";
+import ArchivePage from "./pages/Archive";
+import TaskDetailPage from "./pages/TaskDetail";
 import NotFound from "./pages/NotFound";
+import { UpdatePrompt } from "@/components/UpdatePrompt";
 
 const queryClient = new QueryClient();
 
@@ -15,15 +21,22 @@ const App = () => (
       <TooltipProvider>
       <Toaster />
       <Sonner />
+      <UpdatePrompt />
       <AuthProvider>
+        <TasksProvider>
         <BrowserRouter>
           <Routes>
             <Route path="/" element={<Index />} />
             <Route path="/settings" element={<Settings />} />
+            <Route path="/calendar" element={<CalendarPage />} />
+            <Route path="/trash" element={<TrashPage />} />
+            <Route path="/archive" element={<ArchivePage />} />
+            <Route path="/tasks/:id" element={<TaskDetailPage />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
         </BrowserRouter>
+        </TasksProvider>
       </AuthProvider>
     </TooltipProvider>
   </QueryClientProvider>
@@ -0,0 +1,196 @@
+import React, { useRef, useState } from 'react';
+import { motion, useDragControls, PanInfo } from 'framer-motion';
+import { ChevronLeft, ChevronRight, GripVertical } from 'lucide-react';
+import { BoardGrouping, Category, Task } from '@/types';
+import { BoardColumn, BOARD_GROUPINGS, boardColumns, collapseKey, columnOf } from '@/lib/board';
+import { categoryBadgeStyle } from '@/lib/categories';
+import { cn } from '@/lib/utils';
+
+interface BoardViewProps {
+  tasks: Task[];
+  categories: Category[];
+  groupBy: BoardGrouping;
+  collapsed: string[];
+  onGroupByChange: (groupBy: BoardGrouping) => void;
+  onToggleCollapse: (key: string) => void;
+  onMove: (task: Task, columnId: string) => void;
+  renderTask: (task: Task) => React.ReactNode;
+}
+
+interface BoardCardProps {
+  task: Task;
+  onDrag: (point: { x: number; y: number }, card: HTMLElement) => void;
+  onDrop: (point: { x: number; y: number }, card: HTMLElement) => void;
+  onKeyboardMove: (offset: -1 | 1) => void;
+  children: React.ReactNode;
+}
+
+/**
+ * Column under a viewport point, ignoring the card being dragged
+ */
+const columnAt = (point: { x: number; y: number }, card: HTMLElement): string | null => {
+  const x = point.x - window.scrollX;
+  const y = point.y - window.scrollY;
+  const target = document.elementsFromPoint(x, y).find(el => !card.contains(el) && el.closest('[data-board-column]'));
+  return target?.closest('[data-board-column]')?.getAttribute('data-board-column') ?? null;
+};
+
+const BoardCard: React.FC<BoardCardProps> = ({ task, onDrag, onDrop, onKeyboardMove, children }) => {
+  const controls = useDragControls();
+  const ref = useRef<HTMLDivElement>(null);
+
+  return (
+    <motion.div
+      ref={ref}
+      drag
+      dragListener={false}
+      dragControls={controls}
+      dragSnapToOrigin
+      whileDrag={{ scale: 1.03, zIndex: 50 }}
+      onDrag={(_, info: PanInfo) => ref.current && onDrag(info.point, ref.current)}
+      onDragEnd={(_, info: PanInfo) => ref.current && onDrop(info.point, ref.current)}
+      className="relative"
+    >
+      <button
+        type="button"
+        onPointerDown={(e) => controls.start(e)}
+        onKeyDown={(e) => {
+          if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+            e.preventDefault();
+            onKeyboardMove(e.key === 'ArrowLeft' ? -1 : 1);
+          }
+        }}
+        style={{ touchAction: 'none' }}
+        className="absolute left-1 top-1/2 -translate-y-1/2 z-10 p-1 rounded text-muted-foreground hover:text-foreground cursor-grab active:cursor-grabbing focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+        aria-label={`Move "${task.title}" to another column. Use the left and right arrow keys.`}
+      >
+        <GripVertical className="w-4 h-4" />
+      </button>
+      <div className="pl-5">{children}</div>
+    </motion.div>
+  );
+};
+
+export const BoardView: React.FC<BoardViewProps> = ({
+  tasks,
+  categories,
+  groupBy,
+  collapsed,
+  onGroupByChange,
+  onToggleCollapse,
+  onMove,
+  renderTask,
+}) => {
+  const [hoverColumn, setHoverColumn] = useState<string | null>(null);
+
+  // Keep tasks whose category no longer exists visible in their own column
+  const columns: BoardColumn[] = boardColumns(groupBy, categories);
+  tasks.forEach(task => {
+    const id = columnOf(task, groupBy);
+    if (!columns.some(c => c.id === id)) columns.push({ id, label: id, color: task.categoryColor });
+  });
+
+  const tasksIn = (columnId: string) => tasks.filter(task => columnOf(task, groupBy) === columnId);
+
+  const moveTo = (task: Task, columnId: string | null) => {
+    setHoverColumn(null);
+    if (columnId && columnId !== columnOf(task, groupBy)) onMove(task, columnId);
+  };
+
+  const moveBy = (task: Task, offset: -1 | 1) => {
+    const index = columns.findIndex(c => c.id === columnOf(task, groupBy));
+    const target = columns[index + offset];
+    if (target) moveTo(task, target.id);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <span className="text-sm text-muted-foreground">Columns</span>
+        {BOARD_GROUPINGS.map(g => (
+          <button
+            key={g.value}
+            onClick={() => onGroupByChange(g.value)}
+            aria-pressed={groupBy === g.value}
+            className={cn(
+              "px-3 py-1 rounded-full text-xs font-medium transition-all duration-200",
+              groupBy === g.value
+                ? "gradient-primary text-primary-foreground shadow-md"
+                : "bg-muted text-muted-foreground hover:bg-muted/80"
+            )}
+          >
+            {g.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex gap-4 overflow-x-auto pb-4 items-start">
+        {columns.map(column => {
+          const columnTasks = tasksIn(column.id);
+          const key = collapseKey(groupBy, column.id);
+          const isCollapsed = collapsed.includes(key);
+          const pendingCount = columnTasks.filter(t => t.status === 'pending').length;
+
+          return (
+            <section
+              key={column.id}
+              data-board-column={column.id}
+              aria-label={column.label}
+              className={cn(
+                "shrink-0 rounded-2xl bg-card/80 backdrop-blur-sm border p-3 transition-colors",
+                isCollapsed ? "w-12" : "w-80",
+                hoverColumn === column.id && "border-primary bg-primary/5"
+              )}
+            >
+              <header className={cn("flex items-center gap-2", isCollapsed ? "flex-col" : "mb-3")}>
+                <button
+                  onClick={() => onToggleCollapse(key)}
+                  className="text-muted-foreground hover:text-foreground"
+                  aria-label={isCollapsed ? `Expand ${column.label}` : `Collapse ${column.label}`}
+                  aria-expanded={!isCollapsed}
+                >
+                  {isCollapsed ? <ChevronRight className="w-4 h-4" /> : <ChevronLeft className="w-4 h-4" />}
+                </button>
+                <h3
+                  className={cn(
+                    "font-semibold text-sm text-foreground truncate",
+                    isCollapsed && "[writing-mode:vertical-rl]"
+                  )}
+                >
+                  {column.color ? (
+                    <span className="px-2 py-0.5 rounded-full" style={categoryBadgeStyle(column.color)}>{column.label}</span>
+                  ) : column.label}
+                </h3>
+                <span
+                  className="ml-auto text-xs tabular-nums text-muted-foreground"
+                  title={`${pendingCount} open of ${columnTasks.length}`}
+                >
+                  {columnTasks.length}
+                </span>
+              </header>
+
+              {!isCollapsed && (
+                <div className="space-y-3 min-h-16">
+                  {columnTasks.length === 0 && (
+                    <p className="text-xs text-muted-foreground text-center py-6">Drop tasks here</p>
+                  )}
+                  {columnTasks.map(task => (
+                    <BoardCard
+                      key={task.id}
+                      task={task}
+                      onDrag={(point, card) => setHoverColumn(columnAt(point, card))}
+                      onDrop={(point, card) => moveTo(task, columnAt(point, card))}
+                      onKeyboardMove={offset => moveBy(task, offset)}
+                    >
+                      {renderTask(task)}
+                    </BoardCard>
+                  ))}
+                </div>
+              )}
+            </section>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
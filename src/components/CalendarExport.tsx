@@ -0,0 +1,96 @@
+import React, { useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { CalendarPlus, FileUp } from 'lucide-react';
+import { ImportedTask, Task } from '@/types';
+import { downloadFile, findDuplicates } from '@/lib/formats';
+import { IcsComponent, parseIcs, serializeIcs } from '@/lib/formats/ics';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+
+interface CalendarExportProps {
+  tasks: Task[];
+  // Creates the tasks as one undo step and resolves with how many there were
+  onImport: (tasks: ImportedTask[]) => Promise<number>;
+}
+
+const exports: { component: IcsComponent; label: string; hint: string }[] = [
+  { component: 'VTODO', label: 'To-dos', hint: 'For apps with task lists' },
+  { component: 'VEVENT', label: 'Events', hint: 'Deadlines as calendar events' },
+];
+
+export const CalendarExport: React.FC<CalendarExportProps> = ({ tasks, onImport }) => {
+  const { toast } = useToast();
+  const [importing, setImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const pendingCount = tasks.filter(t => t.status === 'pending').length;
+
+  const exportAs = (component: IcsComponent) => {
+    const name = `donezit-${component === 'VTODO' ? 'todos' : 'deadlines'}-${format(new Date(), 'yyyy-MM-dd')}.ics`;
+    downloadFile(name, serializeIcs(tasks, component), 'text/calendar');
+  };
+
+  const importFile = async (file: File) => {
+    setImporting(true);
+    try {
+      const { tasks: imported, errors } = parseIcs(await file.text());
+      const duplicates = findDuplicates(imported, tasks);
+      const fresh = imported.filter((_, i) => !duplicates[i]);
+      // Completed to-dos come in completed, with their creation date
+      const count = fresh.length > 0 ? await onImport(fresh) : 0;
+      const skipped = imported.length - fresh.length + errors.length;
+      toast({
+        title: `Imported ${count} to-do${count === 1 ? '' : 's'}`,
+        description: skipped > 0 ? `${skipped} skipped as duplicates or invalid` : undefined,
+      });
+    } catch (err) {
+      console.error('Failed to import calendar file:', err);
+      toast({
+        title: 'Import failed',
+        description: err instanceof Error ? err.message : 'Could not read the calendar file',
+        variant: 'destructive',
+      });
+    } finally {
+      setImporting(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Download your {pendingCount} pending task{pendingCount === 1 ? '' : 's'} as an .ics file to add to your calendar,
+        or import to-dos from one.
+      </p>
+      <div className="flex flex-wrap gap-2">
+        {exports.map(({ component, label, hint }) => (
+          <Button
+            key={component}
+            variant="outline"
+            size="sm"
+            disabled={pendingCount === 0}
+            onClick={() => exportAs(component)}
+            title={hint}
+          >
+            <CalendarPlus className="w-4 h-4 mr-2" />
+            {label}
+          </Button>
+        ))}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".ics,text/calendar"
+          className="hidden"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) importFile(file);
+          }}
+        />
+        <Button variant="outline" size="sm" disabled={importing} onClick={() => fileInputRef.current?.click()}>
+          <FileUp className="w-4 h-4 mr-2" />
+          {importing ? 'Importing…' : 'Import .ics'}
+        </Button>
+      </div>
+    </div>
+  );
+};
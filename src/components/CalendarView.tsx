@@ -0,0 +1,253 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion, PanInfo } from 'framer-motion';
+import { addDays, addHours, format, isSameMonth, isToday, setHours } from 'date-fns';
+import { Task } from '@/types';
+import { CalendarMode, SlotGranularity, groupByDay, rescheduleTo, visibleDays } from '@/lib/calendar';
+import { isTaskOverdue } from '@/lib/deadlines';
+import { categoryBadgeStyle } from '@/lib/categories';
+import { cn } from '@/lib/utils';
+
+interface CalendarViewProps {
+  mode: CalendarMode;
+  date: Date;
+  tasks: Task[];
+  onReschedule: (task: Task, deadline: Date) => void;
+  onOpenTask: (task: Task) => void;
+  onSelectDay: (day: Date) => void;
+}
+
+interface CalendarTaskProps {
+  task: Task;
+  showTime: boolean;
+  onDrag: (point: { x: number; y: number }, chip: HTMLElement) => void;
+  onDrop: (point: { x: number; y: number }, chip: HTMLElement) => void;
+  onKeyboardMove: (key: string) => void;
+  onOpen: () => void;
+}
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+// Month cells list this many tasks before collapsing the rest into "+N more"
+const MONTH_CELL_LIMIT = 3;
+
+interface Slot {
+  start: Date;
+  granularity: SlotGranularity;
+}
+
+/**
+ * Slot under a page point, ignoring the chip being dragged
+ */
+const slotAt = (point: { x: number; y: number }, chip: HTMLElement): Slot | null => {
+  const x = point.x - window.scrollX;
+  const y = point.y - window.scrollY;
+  const target = document.elementsFromPoint(x, y)
+    .find(el => !chip.contains(el) && el.closest('[data-calendar-slot]'))
+    ?.closest('[data-calendar-slot]');
+  if (!target) return null;
+  return {
+    start: new Date(target.getAttribute('data-calendar-slot')!),
+    granularity: target.getAttribute('data-slot-granularity') as SlotGranularity,
+  };
+};
+
+const CalendarTask: React.FC<CalendarTaskProps> = ({ task, showTime, onDrag, onDrop, onKeyboardMove, onOpen }) => {
+  const ref = useRef<HTMLDivElement>(null);
+  // A drag ends with a click on the chip; don't open the task for it
+  const draggedRef = useRef(false);
+  const overdue = isTaskOverdue(task);
+  const completed = task.status === 'completed';
+
+  return (
+    <motion.div
+      ref={ref}
+      drag
+      dragSnapToOrigin
+      dragMomentum={false}
+      whileDrag={{ scale: 1.05, zIndex: 50 }}
+      onDragStart={() => { draggedRef.current = true; }}
+      onDrag={(_, info: PanInfo) => ref.current && onDrag(info.point, ref.current)}
+      onDragEnd={(_, info: PanInfo) => ref.current && onDrop(info.point, ref.current)}
+      onClick={() => {
+        if (draggedRef.current) {
+          draggedRef.current = false;
+          return;
+        }
+        onOpen();
+      }}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') {
+          onOpen();
+        } else if (e.key.startsWith('Arrow')) {
+          e.preventDefault();
+          onKeyboardMove(e.key);
+        }
+      }}
+      role="button"
+      tabIndex={0}
+      title={`${task.title} · ${format(new Date(task.deadline), 'PPp')}`}
+      aria-label={`${task.title}, due ${format(new Date(task.deadline), 'PPp')}${overdue ? ', overdue' : ''}. Arrow keys reschedule.`}
+      style={{ touchAction: 'none', ...(overdue || completed ? {} : categoryBadgeStyle(task.categoryColor)) }}
+      className={cn(
+        "relative px-2 py-1 rounded-md text-xs font-medium truncate cursor-grab active:cursor-grabbing select-none",
+        "focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring",
+        overdue
+          ? "bg-destructive/15 text-destructive border border-destructive/40"
+          : completed
+            ? "bg-muted text-muted-foreground line-through"
+            : "bg-primary/10 text-foreground"
+      )}
+    >
+      {showTime && <span className="tabular-nums opacity-75 mr-1">{format(new Date(task.deadline), 'HH:mm')}</span>}
+      {task.title}
+    </motion.div>
+  );
+};
+
+export const CalendarView: React.FC<CalendarViewProps> = ({ mode, date, tasks, onReschedule, onOpenTask, onSelectDay }) => {
+  const [hoverSlot, setHoverSlot] = useState<string | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const days = visibleDays(mode, date);
+  const byDay = groupByDay(tasks, days);
+
+  // Start the time grid at the beginning of a working day
+  useEffect(() => {
+    if (mode !== 'month' && scrollRef.current) {
+      scrollRef.current.scrollTop = 7 * 48;
+    }
+  }, [mode]);
+
+  const drop = (task: Task, slot: Slot | null) => {
+    setHoverSlot(null);
+    if (!slot) return;
+    const deadline = rescheduleTo(task.deadline, slot.start, slot.granularity);
+    if (deadline.getTime() !== new Date(task.deadline).getTime()) onReschedule(task, deadline);
+  };
+
+  const moveByKey = (task: Task, key: string) => {
+    const deadline = new Date(task.deadline);
+    const next =
+      key === 'ArrowLeft' ? addDays(deadline, -1) :
+      key === 'ArrowRight' ? addDays(deadline, 1) :
+      mode === 'month'
+        ? addDays(deadline, key === 'ArrowUp' ? -7 : 7)
+        : addHours(deadline, key === 'ArrowUp' ? -1 : 1);
+    onReschedule(task, next);
+  };
+
+  const renderTask = (task: Task, showTime: boolean) => (
+    <CalendarTask
+      key={task.id}
+      task={task}
+      showTime={showTime}
+      onDrag={(point, chip) => {
+        const slot = slotAt(point, chip);
+        setHoverSlot(slot ? slot.start.toISOString() : null);
+      }}
+      onDrop={(point, chip) => drop(task, slotAt(point, chip))}
+      onKeyboardMove={key => moveByKey(task, key)}
+      onOpen={() => onOpenTask(task)}
+    />
+  );
+
+  if (mode === 'month') {
+    return (
+      <div className="rounded-2xl border bg-card/80 backdrop-blur-sm overflow-hidden">
+        <div className="grid grid-cols-7 border-b">
+          {days.slice(0, 7).map(day => (
+            <div key={day.getTime()} className="px-2 py-2 text-xs font-medium text-muted-foreground text-center">
+              {format(day, 'EEE')}
+            </div>
+          ))}
+        </div>
+        <div className="grid grid-cols-7">
+          {days.map(day => {
+            const dayTasks = byDay.get(day.getTime()) ?? [];
+            const slot = day.toISOString();
+            return (
+              <div
+                key={slot}
+                data-calendar-slot={slot}
+                data-slot-granularity="day"
+                className={cn(
+                  "min-h-28 border-b border-r p-1.5 space-y-1 transition-colors",
+                  !isSameMonth(day, date) && "bg-muted/30",
+                  hoverSlot === slot && "bg-primary/10"
+                )}
+              >
+                <button
+                  onClick={() => onSelectDay(day)}
+                  className={cn(
+                    "w-6 h-6 rounded-full text-xs font-medium",
+                    isToday(day) ? "bg-primary text-primary-foreground" : "text-muted-foreground hover:bg-muted"
+                  )}
+                  aria-label={`Show ${format(day, 'PPPP')}`}
+                >
+                  {format(day, 'd')}
+                </button>
+                {dayTasks.slice(0, MONTH_CELL_LIMIT).map(task => renderTask(task, false))}
+                {dayTasks.length > MONTH_CELL_LIMIT && (
+                  <button
+                    onClick={() => onSelectDay(day)}
+                    className="text-xs text-muted-foreground hover:text-foreground px-2"
+                  >
+                    +{dayTasks.length - MONTH_CELL_LIMIT} more
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    );
+  }
+
+  // Week and day views: one row per hour
+  return (
+    <div className="rounded-2xl border bg-card/80 backdrop-blur-sm overflow-hidden">
+      <div className="grid border-b" style={{ gridTemplateColumns: `3.5rem repeat(${days.length}, minmax(0, 1fr))` }}>
+        <div />
+        {days.map(day => (
+          <button
+            key={day.getTime()}
+            onClick={() => onSelectDay(day)}
+            className={cn(
+              "px-2 py-2 text-xs font-medium text-center",
+              isToday(day) ? "text-primary" : "text-muted-foreground"
+            )}
+          >
+            {format(day, mode === 'day' ? 'EEEE, MMMM d' : 'EEE d')}
+          </button>
+        ))}
+      </div>
+      <div ref={scrollRef} className="max-h-[70vh] overflow-y-auto">
+        <div className="grid" style={{ gridTemplateColumns: `3.5rem repeat(${days.length}, minmax(0, 1fr))` }}>
+          {HOURS.map(hour => (
+            <React.Fragment key={hour}>
+              <div className="h-12 pr-2 text-right text-[0.7rem] text-muted-foreground tabular-nums -translate-y-2">
+                {hour > 0 && format(setHours(days[0], hour), 'HH:00')}
+              </div>
+              {days.map(day => {
+                const slotStart = setHours(day, hour);
+                const slot = slotStart.toISOString();
+                const hourTasks = (byDay.get(day.getTime()) ?? []).filter(t => new Date(t.deadline).getHours() === hour);
+                return (
+                  <div
+                    key={slot}
+                    data-calendar-slot={slot}
+                    data-slot-granularity="hour"
+                    className={cn(
+                      "min-h-12 border-t border-l p-0.5 space-y-0.5 transition-colors",
+                      hoverSlot === slot && "bg-primary/10"
+                    )}
+                  >
+                    {hourTasks.map(task => renderTask(task, true))}
+                  </div>
+                );
+              })}
+            </React.Fragment>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,187 @@
+import React, { useState } from 'react';
+import { Check, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { Category } from '@/types';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { CATEGORY_COLORS } from '@/lib/categories';
+import { cn } from '@/lib/utils';
+
+interface CategoryManagerProps {
+  categories: Category[];
+  // Number of tasks per category name
+  taskCounts: Record<string, number>;
+  onCreate: (name: string, color?: string) => Promise<Category>;
+  onRename: (id: string, name: string) => Promise<void>;
+  onRecolor: (id: string, color: string) => Promise<void>;
+  onDelete: (id: string, reassignTo: Category | null) => Promise<void>;
+}
+
+const inputClass = "h-9 px-3 rounded-md border bg-transparent text-sm";
+
+export const CategoryManager: React.FC<CategoryManagerProps> = ({
+  categories,
+  taskCounts,
+  onCreate,
+  onRename,
+  onRecolor,
+  onDelete,
+}) => {
+  const { toast } = useToast();
+  const [newName, setNewName] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [reassignTo, setReassignTo] = useState('');
+
+  // Run an action and surface its error as a toast
+  const attempt = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+      return true;
+    } catch (err) {
+      toast({
+        title: 'Error',
+        description: err instanceof Error ? err.message : 'Something went wrong',
+        variant: 'destructive',
+      });
+      return false;
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!newName.trim()) return;
+    if (await attempt(() => onCreate(newName))) setNewName('');
+  };
+
+  const handleRename = async (id: string) => {
+    if (await attempt(() => onRename(id, renameValue))) setRenamingId(null);
+  };
+
+  const handleDelete = async (id: string) => {
+    const target = categories.find(c => c.id === reassignTo) ?? null;
+    if (await attempt(() => onDelete(id, target))) {
+      setDeletingId(null);
+      setReassignTo('');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <ul className="space-y-2">
+        {categories.map((category) => {
+          const count = taskCounts[category.name] ?? 0;
+          return (
+            <li key={category.id} className="rounded-lg border p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: category.color }} />
+                {renamingId === category.id ? (
+                  <input
+                    autoFocus
+                    value={renameValue}
+                    onChange={(e) => setRenameValue(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleRename(category.id);
+                      if (e.key === 'Escape') setRenamingId(null);
+                    }}
+                    className={cn(inputClass, "flex-1")}
+                  />
+                ) : (
+                  <span className="flex-1 text-sm font-medium">
+                    {category.name}
+                    <span className="ml-2 text-xs text-muted-foreground">
+                      {count} task{count === 1 ? '' : 's'}
+                    </span>
+                  </span>
+                )}
+                {renamingId === category.id ? (
+                  <>
+                    <Button variant="ghost" size="icon-sm" onClick={() => handleRename(category.id)} aria-label="Save name">
+                      <Check className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon-sm" onClick={() => setRenamingId(null)} aria-label="Cancel rename">
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="icon-sm"
+                      onClick={() => {
+                        setRenamingId(category.id);
+                        setRenameValue(category.name);
+                      }}
+                      aria-label={`Rename ${category.name}`}
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon-sm"
+                      className="hover:text-destructive"
+                      onClick={() => setDeletingId(deletingId === category.id ? null : category.id)}
+                      aria-label={`Delete ${category.name}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </>
+                )}
+              </div>
+
+              <div className="flex flex-wrap gap-1.5">
+                {CATEGORY_COLORS.map((color) => (
+                  <button
+                    key={color}
+                    type="button"
+                    onClick={() => attempt(() => onRecolor(category.id, color))}
+                    className={cn(
+                      "w-5 h-5 rounded-full transition-transform hover:scale-110",
+                      category.color === color && "ring-2 ring-offset-2 ring-ring"
+                    )}
+                    style={{ backgroundColor: color }}
+                    aria-label={`Use color ${color}`}
+                  />
+                ))}
+              </div>
+
+              {deletingId === category.id && (
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  {count > 0 && (
+                    <>
+                      <span className="text-muted-foreground">Move its {count} task{count === 1 ? '' : 's'} to</span>
+                      <select value={reassignTo} onChange={(e) => setReassignTo(e.target.value)} className={inputClass}>
+                        <option value="">No category</option>
+                        {categories.filter(c => c.id !== category.id).map(c => (
+                          <option key={c.id} value={c.id}>{c.name}</option>
+                        ))}
+                      </select>
+                    </>
+                  )}
+                  <Button variant="destructive" size="sm" onClick={() => handleDelete(category.id)}>
+                    Delete
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => setDeletingId(null)}>
+                    Cancel
+                  </Button>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="flex gap-2">
+        <input
+          placeholder="New category"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+          className={cn(inputClass, "flex-1")}
+        />
+        <Button variant="outline" size="sm" onClick={handleCreate}>
+          <Plus className="w-4 h-4" /> Add
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { ListChecks, ChevronUp, ChevronDown, X, Plus } from 'lucide-react';
+import { ChecklistItem } from '@/types';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  createChecklistItem,
+  sortChecklist,
+  renumberChecklist,
+  moveChecklistItem,
+} from '@/lib/checklist';
+
+interface ChecklistEditorProps {
+  items: ChecklistItem[];
+  onChange: (items: ChecklistItem[]) => void;
+}
+
+export const ChecklistEditor: React.FC<ChecklistEditorProps> = ({ items, onChange }) => {
+  const [draft, setDraft] = useState('');
+  const sorted = sortChecklist(items);
+
+  const addItem = () => {
+    const text = draft.trim();
+    if (!text) return;
+    onChange([...sorted, createChecklistItem(text, sorted.length)]);
+    setDraft('');
+  };
+
+  const updateItem = (id: string, changes: Partial<ChecklistItem>) => {
+    onChange(sorted.map(item => (item.id === id ? { ...item, ...changes } : item)));
+  };
+
+  const removeItem = (id: string) => {
+    onChange(renumberChecklist(sorted.filter(item => item.id !== id)));
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+        <ListChecks className="w-4 h-4" /> Checklist
+      </label>
+
+      {sorted.length > 0 && (
+        <ul className="space-y-1">
+          {sorted.map((item, index) => (
+            <li key={item.id} className="flex items-center gap-2">
+              <Checkbox
+                checked={item.completed}
+                onCheckedChange={(checked) => updateItem(item.id, { completed: checked === true })}
+                aria-label={`Mark "${item.text}" as done`}
+              />
+              <input
+                type="text"
+                value={item.text}
+                onChange={(e) => updateItem(item.id, { text: e.target.value })}
+                className="flex-1 h-9 px-3 rounded-lg border-2 border-input bg-background text-foreground text-sm focus:border-primary/50 focus:outline-none transition-colors"
+              />
+              <button
+                type="button"
+                onClick={() => onChange(moveChecklistItem(sorted, item.id, -1))}
+                disabled={index === 0}
+                className="text-muted-foreground hover:text-foreground disabled:opacity-30"
+                aria-label="Move up"
+              >
+                <ChevronUp className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => onChange(moveChecklistItem(sorted, item.id, 1))}
+                disabled={index === sorted.length - 1}
+                className="text-muted-foreground hover:text-foreground disabled:opacity-30"
+                aria-label="Move down"
+              >
+                <ChevronDown className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => removeItem(item.id)}
+                className="text-muted-foreground hover:text-destructive"
+                aria-label="Remove item"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          placeholder="Add a step..."
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            // Enter adds an item instead of submitting the whole form
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              addItem();
+            }
+          }}
+          className="flex-1 h-9 px-3 rounded-lg border-2 border-input bg-background text-foreground text-sm placeholder:text-muted-foreground focus:border-primary/50 focus:outline-none transition-colors"
+        />
+        <button
+          type="button"
+          onClick={addItem}
+          className="px-3 rounded-lg bg-muted text-muted-foreground hover:bg-muted/80"
+          aria-label="Add checklist item"
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,11 +1,17 @@
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useNavigate } from 'react-router-dom';
-import { Plus } from 'lucide-react';
+import { Plus, LayoutList, Columns3, ArrowDownUp } from 'lucide-react';
 
 import { useAuthContext } from '@/contexts/AuthContext';
-import { useTasks } from '@/hooks/useTasks';
+import { useTasksContext } from '@/contexts/TasksContext';
+import { useCategories } from '@/hooks/useCategories';
 import { useToast } from '@/hooks/use-toast';
+import { useUndoShortcuts } from '@/hooks/useUndoShortcuts';
+import { ImportedTask, Task, TaskLayout } from '@/types';
+import { columnUpdate } from '@/lib/board';
+import { QuickAddResult } from '@/lib/quickAdd';
+import { cn } from '@/lib/utils';
 
 import TopNav from '@/components/TopNav';
 import VideoBg from '@/components/VideoBg';
@@ -13,16 +19,31 @@ import { TaskCard } from '@/components/TaskCard';
 import { TaskForm } from '@/components/TaskForm';
 import { FilterBar } from '@/components/FilterBar';
 import { StatsCards } from '@/components/StatsCards';
+import { SyncStatus } from '@/components/SyncStatus';
+import { SearchBar } from '@/components/SearchBar';
+import { SortControl } from '@/components/SortControl';
+import { SortableTaskList } from '@/components/SortableTaskList';
+import { BoardView } from '@/components/BoardView';
+import { QuickAdd } from '@/components/QuickAdd';
+import { TransferDialog } from '@/components/TransferDialog';
 
 import { Button } from '@/components/ui/button';
+import { ToastAction } from '@/components/ui/toast';
 // header-related dropdown/avatar removed; TopNav provides those
 
+const layouts: { value: TaskLayout; label: string; icon: typeof LayoutList }[] = [
+  { value: 'list', label: 'List', icon: LayoutList },
+  { value: 'board', label: 'Board', icon: Columns3 },
+];
+
 export const Dashboard: React.FC = () => {
   const navigate = useNavigate();
   const { user, logout } = useAuthContext();
   const { toast } = useToast();
 
   const [showForm, setShowForm] = useState(false);
+  const [editingTask, setEditingTask] = useState<Task | null>(null);
+  const [showTransfer, setShowTransfer] = useState(false);
   const [isDark, setIsDark] = useState<boolean>(() => {
     try {
       const v = localStorage.getItem('theme');
@@ -57,19 +78,129 @@ export const Dashboard: React.FC = () => {
   };
 
   const {
+    tasks,
     filteredTasks,
     filter,
     categoryFilter,
+    categoryCounts,
+    searchQuery,
+    searchText,
+    queryErrors,
+    activeView,
+    setActiveView,
+    setSearchQuery,
+    sort,
+    setSort,
+    preferences,
+    updatePreferences,
+    saveView,
+    deleteView,
     setFilter,
     setCategoryFilter,
+    toggleCategoryFilter,
     addTask,
+    importTasks,
+    loadArchivedTasks,
+    updateTask,
     deleteTask,
     toggleTaskStatus,
+    toggleChecklistItem,
+    moveTask,
+    reassignCategory,
     getTaskStats,
-  } = useTasks(user?.uid || null);
+    undo,
+    redo,
+    pendingCount,
+    syncing,
+    conflicts,
+    dismissConflict,
+  } = useTasksContext();
+
+  const { categories, addCategory, getCategoryColor } = useCategories(user?.uid || null, reassignCategory);
+
+  const { layout, board } = preferences;
 
   const stats = getTaskStats();
 
+  const handleUndo = () => {
+    const label = undo();
+    if (label) toast({ title: `Undone: ${label}`, action: <ToastAction altText="Redo" onClick={handleRedo}>Redo</ToastAction> });
+  };
+
+  const handleRedo = () => {
+    const label = redo();
+    if (label) toast({ title: `Redone: ${label}`, action: undoAction() });
+  };
+
+  // Offered in the toast after every change
+  const undoAction = () => <ToastAction altText="Undo" onClick={handleUndo}>Undo</ToastAction>;
+
+  useUndoShortcuts(handleUndo, handleRedo);
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditingTask(null);
+  };
+
+  const handleQuickAdd = async ({ data, newCategory }: QuickAddResult) => {
+    try {
+      // Unknown #categories are created on the fly, like in the task form
+      const created = newCategory ? await addCategory(newCategory) : null;
+      await addTask(created ? { ...data, category: created.name, categoryColor: created.color } : data);
+      toast({ title: 'Task added successfully', action: undoAction() });
+    } catch (err) {
+      toast({
+        title: 'Error',
+        description: err instanceof Error ? err.message : 'Failed to add task',
+        variant: 'destructive',
+      });
+      throw err;
+    }
+  };
+
+  const handleImport = async (imported: ImportedTask[]) => {
+    try {
+      // Create categories the file mentions but the user does not have yet
+      const known = new Map(categories.map(c => [c.name.toLowerCase(), c]));
+      for (const name of new Set(imported.map(t => t.category).filter(Boolean) as string[])) {
+        if (!known.has(name.toLowerCase())) known.set(name.toLowerCase(), await addCategory(name));
+      }
+      const count = await importTasks(imported.map(task => {
+        const category = task.category ? known.get(task.category.toLowerCase()) : undefined;
+        return category ? { ...task, category: category.name, categoryColor: category.color } : task;
+      }));
+      toast({ title: `Imported ${count} task${count === 1 ? '' : 's'}` });
+    } catch (err) {
+      toast({
+        title: 'Import failed',
+        description: err instanceof Error ? err.message : 'Failed to import tasks',
+        variant: 'destructive',
+      });
+      throw err;
+    }
+  };
+
+  const renderTask = (task: Task) => (
+    <TaskCard
+      task={task}
+      categoryColor={getCategoryColor(task.category)}
+      highlight={searchText}
+      onToggle={() => {
+        toggleTaskStatus(task.id);
+        toast({ title: task.status === 'pending' ? 'Task completed' : 'Task reopened', action: undoAction() });
+      }}
+      onDelete={() => {
+        deleteTask(task.id);
+        toast({ title: 'Moved to trash', description: task.title, action: undoAction() });
+      }}
+      onEdit={() => {
+        setEditingTask(task);
+        setShowForm(true);
+      }}
+      onToggleChecklistItem={itemId => toggleChecklistItem(task.id, itemId)}
+    />
+  );
+
   return (
     <div className="min-h-screen bg-transparent relative">
       <VideoBg />
@@ -79,13 +210,71 @@ export const Dashboard: React.FC = () => {
       <main className="relative z-10 container mx-auto px-4 py-6 space-y-6">
         <StatsCards stats={stats} />
 
+        <SyncStatus
+          pendingCount={pendingCount}
+          syncing={syncing}
+          conflicts={conflicts}
+          onDismissConflict={dismissConflict}
+        />
+
+        <SearchBar
+          value={searchQuery}
+          onChange={setSearchQuery}
+          errors={queryErrors}
+          onSaveView={name => {
+            setActiveView(saveView(name, searchQuery));
+            setSearchQuery('');
+            toast({ title: `Saved view "${name}"` });
+          }}
+        />
+
         <FilterBar
           filter={filter}
+          categories={categories}
           categoryFilter={categoryFilter}
+          categoryCounts={categoryCounts}
+          savedViews={preferences.savedViews}
+          activeViewId={activeView?.id}
           onFilterChange={setFilter}
-          onCategoryChange={setCategoryFilter}
+          onViewSelect={setActiveView}
+          onViewDelete={deleteView}
+          onCategoryToggle={toggleCategoryFilter}
+          onCategoryClear={() => setCategoryFilter([])}
         />
 
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-1" role="group" aria-label="Layout">
+            {layouts.map(({ value, label, icon: Icon }) => (
+              <Button
+                key={value}
+                variant="ghost"
+                size="icon-sm"
+                onClick={() => updatePreferences({ layout: value })}
+                aria-pressed={layout === value}
+                aria-label={label}
+                title={label}
+                className={cn(layout === value && "bg-muted text-foreground")}
+              >
+                <Icon className="w-4 h-4" />
+              </Button>
+            ))}
+          </div>
+          <div className="flex items-center gap-2">
+            <SortControl value={sort} onChange={setSort} />
+            <Button
+              variant="ghost"
+              size="icon-sm"
+              onClick={() => setShowTransfer(true)}
+              aria-label="Import or export tasks"
+              title="Import / Export"
+            >
+              <ArrowDownUp className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+
+        <QuickAdd categories={categories} onSubmit={handleQuickAdd} />
+
         <motion.div whileHover={{ scale: 1.02 }} whileTap={{ scale: 0.98 }}>
           <Button
             variant="gradient"
@@ -100,58 +289,102 @@ export const Dashboard: React.FC = () => {
 
         {/* Task List */}
         <div className="space-y-3">
-          <AnimatePresence mode="popLayout">
-            {filteredTasks.length === 0 ? (
-              <motion.div
-                initial={{ opacity: 0 }}
-                animate={{ opacity: 1 }}
-                className="text-center py-12"
-              >
-                <p className="text-muted-foreground">No tasks found</p>
-              </motion.div>
-            ) : (
-              filteredTasks.map((task, index) => (
+          {layout === 'board' ? (
+            <BoardView
+              tasks={filteredTasks}
+              categories={categories}
+              groupBy={board.groupBy}
+              collapsed={board.collapsed}
+              onGroupByChange={groupBy => updatePreferences({ board: { ...board, groupBy } })}
+              onToggleCollapse={key => updatePreferences({
+                board: {
+                  ...board,
+                  collapsed: board.collapsed.includes(key)
+                    ? board.collapsed.filter(k => k !== key)
+                    : [...board.collapsed, key],
+                },
+              })}
+              onMove={(task, columnId) => {
+                if (board.groupBy === 'status') {
+                  toggleTaskStatus(task.id);
+                } else {
+                  updateTask(task.id, columnUpdate(board.groupBy, columnId, categories));
+                }
+                toast({ title: 'Task moved', action: undoAction() });
+              }}
+              renderTask={renderTask}
+            />
+          ) : sort.strategy === 'manual' && filteredTasks.length > 0 ? (
+            <SortableTaskList tasks={filteredTasks} onMove={moveTask} renderTask={renderTask} />
+          ) : (
+            <AnimatePresence mode="popLayout">
+              {filteredTasks.length === 0 ? (
                 <motion.div
-                  key={task.id}
-                  initial={{ opacity: 0, y: 20 }}
-                  animate={{ opacity: 1, y: 0 }}
-                  exit={{ opacity: 0, x: -100 }}
-                  transition={{ delay: index * 0.05 }}
+                  initial={{ opacity: 0 }}
+                  animate={{ opacity: 1 }}
+                  className="text-center py-12"
                 >
-                  <TaskCard
-                    task={task}
-                    onToggle={() => toggleTaskStatus(task.id)}
-                    onDelete={() => deleteTask(task.id)}
-                  />
+                  <p className="text-muted-foreground">
+                    {searchQuery ? `No tasks match "${searchQuery}"` : 'No tasks found'}
+                  </p>
                 </motion.div>
-              ))
-            )}
-          </AnimatePresence>
+              ) : (
+                filteredTasks.map((task, index) => (
+                  <motion.div
+                    key={task.id}
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    exit={{ opacity: 0, x: -100 }}
+                    transition={{ delay: index * 0.05 }}
+                  >
+                    {renderTask(task)}
+                  </motion.div>
+                ))
+              )}
+            </AnimatePresence>
+          )}
         </div>
       </main>
 
+      <TransferDialog
+        open={showTransfer}
+        onOpenChange={setShowTransfer}
+        tasks={tasks}
+        visibleTasks={filteredTasks}
+        loadArchived={loadArchivedTasks}
+        onImport={handleImport}
+      />
+
       {/* ================= TASK MODAL ================= */}
       <AnimatePresence>
         {showForm && (
           <TaskForm
+            key={editingTask?.id ?? 'new'}
+            task={editingTask ?? undefined}
+            categories={categories}
+            onCreateCategory={name => addCategory(name)}
             onSubmit={async data => {
               if (!user?.uid) {
                 toast({ title: 'Not authenticated' });
                 return;
               }
               try {
-                await addTask(data);
-                setShowForm(false);
-                toast({ title: 'Task added successfully' });
+                if (editingTask) {
+                  updateTask(editingTask.id, data);
+                } else {
+                  await addTask(data);
+                }
+                closeForm();
+                toast({ title: editingTask ? 'Task updated' : 'Task added successfully', action: undoAction() });
               } catch {
                 toast({
                   title: 'Error',
-                  description: 'Failed to add task',
+                  description: editingTask ? 'Failed to update task' : 'Failed to add task',
                   variant: 'destructive',
                 });
               }
             }}
-            onClose={() => setShowForm(false)}
+            onClose={closeForm}
           />
         )}
       </AnimatePresence>
@@ -1,12 +1,24 @@
 import React from 'react';
-import { FilterType } from '@/types';
+import { X } from 'lucide-react';
+import { FilterType, Category, SavedView } from '@/types';
 import { cn } from '@/lib/utils';
+import { categoryBadgeStyle, UNCATEGORIZED } from '@/lib/categories';
 
 interface FilterBarProps {
   filter: FilterType;
-  categoryFilter: string | null;
+  categories: Category[];
+  // Selected category names; UNCATEGORIZED selects tasks without one
+  categoryFilter: string[];
+  // Task counts per category name (and UNCATEGORIZED) under the active filter
+  categoryCounts: Record<string, number>;
+  savedViews: SavedView[];
+  // A selected view replaces the built-in filter
+  activeViewId?: string;
   onFilterChange: (filter: FilterType) => void;
-  onCategoryChange: (category: string | null) => void;
+  onViewSelect: (view: SavedView | null) => void;
+  onViewDelete: (id: string) => void;
+  onCategoryToggle: (category: string) => void;
+  onCategoryClear: () => void;
 }
 
 const filters: { value: FilterType; label: string }[] = [
@@ -18,23 +30,106 @@ const filters: { value: FilterType; label: string }[] = [
   { value: 'overdue', label: 'Overdue' },
 ];
 
-export const FilterBar: React.FC<FilterBarProps> = ({ filter, onFilterChange }) => {
+export const FilterBar: React.FC<FilterBarProps> = ({
+  filter,
+  categories,
+  categoryFilter,
+  categoryCounts,
+  savedViews,
+  activeViewId,
+  onFilterChange,
+  onViewSelect,
+  onViewDelete,
+  onCategoryToggle,
+  onCategoryClear,
+}) => {
+  const chips = [
+    ...categories.map(c => ({ key: c.name, label: c.name, color: c.color })),
+    { key: UNCATEGORIZED, label: 'Uncategorized', color: undefined },
+  ];
+
   return (
-    <div className="flex gap-2 overflow-x-auto pb-2 scrollbar-hide">
-      {filters.map((f) => (
-        <button
-          key={f.value}
-          onClick={() => onFilterChange(f.value)}
-          className={cn(
-            "px-4 py-2 rounded-full text-sm font-medium whitespace-nowrap transition-all duration-200",
-            filter === f.value
-              ? "gradient-primary text-primary-foreground shadow-md"
-              : "bg-muted text-muted-foreground hover:bg-muted/80"
-          )}
-        >
-          {f.label}
-        </button>
-      ))}
+    <div className="space-y-2">
+      <div className="flex gap-2 overflow-x-auto pb-2 scrollbar-hide">
+        {filters.map((f) => (
+          <button
+            key={f.value}
+            onClick={() => onFilterChange(f.value)}
+            className={cn(
+              "px-4 py-2 rounded-full text-sm font-medium whitespace-nowrap transition-all duration-200",
+              filter === f.value && !activeViewId
+                ? "gradient-primary text-primary-foreground shadow-md"
+                : "bg-muted text-muted-foreground hover:bg-muted/80"
+            )}
+          >
+            {f.label}
+          </button>
+        ))}
+        {savedViews.map((view) => {
+          const active = view.id === activeViewId;
+          return (
+            <div
+              key={view.id}
+              className={cn(
+                "flex items-center rounded-full text-sm font-medium whitespace-nowrap transition-all duration-200",
+                active
+                  ? "gradient-primary text-primary-foreground shadow-md"
+                  : "bg-muted text-muted-foreground hover:bg-muted/80"
+              )}
+            >
+              <button
+                onClick={() => onViewSelect(active ? null : view)}
+                title={view.query}
+                aria-pressed={active}
+                className="pl-4 pr-2 py-2"
+              >
+                {view.name}
+              </button>
+              <button
+                onClick={() => {
+                  if (active) onViewSelect(null);
+                  onViewDelete(view.id);
+                }}
+                className="pr-3 py-2 opacity-60 hover:opacity-100"
+                aria-label={`Delete view ${view.name}`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex gap-2 overflow-x-auto pb-2 scrollbar-hide" role="group" aria-label="Filter by category">
+        {chips.map((chip) => {
+          const selected = categoryFilter.includes(chip.key);
+          return (
+            <button
+              key={chip.key}
+              onClick={() => onCategoryToggle(chip.key)}
+              aria-pressed={selected}
+              style={selected ? undefined : categoryBadgeStyle(chip.color)}
+              className={cn(
+                "px-3 py-1 rounded-full text-xs font-medium whitespace-nowrap transition-all duration-200 flex items-center gap-1.5",
+                selected
+                  ? "gradient-primary text-primary-foreground shadow-md"
+                  : "bg-muted text-muted-foreground hover:bg-muted/80"
+              )}
+            >
+              {chip.label}
+              <span className="tabular-nums opacity-75">{categoryCounts[chip.key] ?? 0}</span>
+            </button>
+          );
+        })}
+        {categoryFilter.length > 0 && (
+          <button
+            onClick={onCategoryClear}
+            className="px-3 py-1 rounded-full text-xs font-medium whitespace-nowrap text-muted-foreground hover:text-foreground"
+          >
+            Clear
+          </button>
+        )}
+      </div>
     </div>
   );
 };
@@ -0,0 +1,29 @@
+import React, { useMemo } from 'react';
+import { findMatches, tokenize } from '@/lib/search';
+
+interface HighlightProps {
+  text: string;
+  // Search query whose matches are highlighted
+  query?: string;
+}
+
+export const Highlight: React.FC<HighlightProps> = ({ text, query }) => {
+  const ranges = useMemo(() => (query ? findMatches(text, tokenize(query)) : []), [text, query]);
+
+  if (ranges.length === 0) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  ranges.forEach(([start, end]) => {
+    if (start > cursor) parts.push(text.slice(cursor, start));
+    parts.push(
+      <mark key={start} className="rounded-sm bg-warning/40 text-inherit px-0.5">
+        {text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+  if (cursor < text.length) parts.push(text.slice(cursor));
+
+  return <>{parts}</>;
+};
@@ -0,0 +1,91 @@
+import React, { useMemo } from 'react';
+import { CheckSquare, Square } from 'lucide-react';
+import { BlockNode, InlineNode, parseMarkdownBlocks } from '@/lib/markdown';
+import { cn } from '@/lib/utils';
+import { Highlight } from '@/components/Highlight';
+
+interface MarkdownProps {
+  source: string;
+  // Search query whose matches are highlighted in the text
+  highlight?: string;
+  className?: string;
+}
+
+const renderInline = (nodes: InlineNode[], highlight?: string): React.ReactNode[] =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return <Highlight key={index} text={node.text} query={highlight} />;
+      case 'code':
+        return <code key={index} className="rounded bg-muted px-1 py-0.5 font-mono text-[0.85em]">{node.text}</code>;
+      case 'em':
+        return <em key={index}>{renderInline(node.children, highlight)}</em>;
+      case 'strong':
+        return <strong key={index} className="font-semibold">{renderInline(node.children, highlight)}</strong>;
+      case 'link':
+        return (
+          <a
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className="text-primary underline underline-offset-2 hover:text-primary/80"
+          >
+            {renderInline(node.children, highlight)}
+          </a>
+        );
+    }
+  });
+
+const renderBlock = (block: BlockNode, index: number, highlight?: string): React.ReactNode => {
+  switch (block.type) {
+    case 'paragraph':
+      return (
+        <p key={index}>
+          {block.lines.map((line, lineIndex) => (
+            <React.Fragment key={lineIndex}>
+              {lineIndex > 0 && <br />}
+              {renderInline(line, highlight)}
+            </React.Fragment>
+          ))}
+        </p>
+      );
+    case 'code':
+      return (
+        <pre key={index} className="overflow-x-auto rounded-lg bg-muted p-3 font-mono text-xs">
+          <code>{block.text}</code>
+        </pre>
+      );
+    case 'list': {
+      const isTaskList = block.items.some(item => item.checked !== undefined);
+      const items = block.items.map((item, itemIndex) => (
+        <li key={itemIndex} className={cn(item.checked !== undefined && "flex items-start gap-1.5 list-none")}>
+          {item.checked !== undefined && (item.checked ? (
+            <CheckSquare className="w-4 h-4 mt-0.5 shrink-0 text-success" aria-label="Done" />
+          ) : (
+            <Square className="w-4 h-4 mt-0.5 shrink-0" aria-label="Not done" />
+          ))}
+          <span className={cn(item.checked && "line-through opacity-70")}>{renderInline(item.children, highlight)}</span>
+        </li>
+      ));
+      return block.ordered ? (
+        <ol key={index} start={block.start} className="list-decimal pl-5 space-y-0.5">{items}</ol>
+      ) : (
+        <ul key={index} className={cn("space-y-0.5", isTaskList ? "pl-0" : "list-disc pl-5")}>{items}</ul>
+      );
+    }
+  }
+};
+
+/**
+ * Description text with the Markdown subset from lib/markdown, rendered
+ * without ever setting HTML directly
+ */
+export const Markdown: React.FC<MarkdownProps> = ({ source, highlight, className }) => {
+  const blocks = useMemo(() => parseMarkdownBlocks(source), [source]);
+  return (
+    <div className={cn("space-y-2 break-words", className)}>
+      {blocks.map((block, index) => renderBlock(block, index, highlight))}
+    </div>
+  );
+};
@@ -0,0 +1,105 @@
+import React, { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Calendar, CornerDownLeft, Flag, Tag, Zap } from 'lucide-react';
+import { Category } from '@/types';
+import { parseQuickAdd, QuickAddResult } from '@/lib/quickAdd';
+import { categoryBadgeStyle } from '@/lib/categories';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+
+interface QuickAddProps {
+  categories: Category[];
+  onSubmit: (result: QuickAddResult) => Promise<void>;
+}
+
+const priorityClasses = {
+  low: 'priority-low',
+  medium: 'priority-medium',
+  high: 'priority-high',
+};
+
+export const QuickAdd: React.FC<QuickAddProps> = ({ categories, onSubmit }) => {
+  const [value, setValue] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const result = useMemo(
+    () => (value.trim() ? parseQuickAdd(value, categories) : null),
+    [value, categories]
+  );
+
+  const submit = async () => {
+    if (!result?.data.title || submitting) return;
+    setSubmitting(true);
+    try {
+      await onSubmit(result);
+      setValue('');
+    } catch {
+      // Keep the text so it can be corrected and sent again
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Zap className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground pointer-events-none" />
+        <Input
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              submit();
+            } else if (e.key === 'Escape') {
+              setValue('');
+            }
+          }}
+          placeholder='Quick add, e.g. "Pay rent tomorrow 9am !high #Personal"'
+          className="pl-9 pr-9 rounded-full bg-card"
+          aria-label="Quick add task"
+          aria-describedby={result ? 'quick-add-preview' : undefined}
+          disabled={submitting}
+        />
+        <CornerDownLeft className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground pointer-events-none" />
+      </div>
+
+      {result && (
+        <div id="quick-add-preview" className="flex flex-wrap items-center gap-2 px-3 text-xs" aria-live="polite">
+          <span className={cn("font-medium", result.data.title ? "text-foreground" : "text-destructive")}>
+            {result.data.title || 'Add a title'}
+          </span>
+          <span
+            className={cn(
+              "flex items-center gap-1 px-2 py-0.5 rounded-full",
+              result.hasDeadline ? "bg-primary/10 text-foreground" : "bg-muted text-muted-foreground"
+            )}
+            title={result.hasDeadline ? undefined : 'No date given, due end of today'}
+          >
+            <Calendar className="w-3 h-3" />
+            {format(result.data.deadline, 'EEE, MMM d · HH:mm')}
+          </span>
+          <span
+            className={cn(
+              "flex items-center gap-1 px-2 py-0.5 rounded-full capitalize",
+              result.hasPriority ? priorityClasses[result.data.priority] : "bg-muted text-muted-foreground"
+            )}
+          >
+            <Flag className="w-3 h-3" />
+            {result.data.priority}
+          </span>
+          {result.data.category && (
+            <span
+              className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-muted text-muted-foreground"
+              style={categoryBadgeStyle(result.data.categoryColor)}
+            >
+              <Tag className="w-3 h-3" />
+              {result.data.category}
+              {result.newCategory && <span className="opacity-75">(new)</span>}
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
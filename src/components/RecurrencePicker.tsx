@@ -0,0 +1,229 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { Repeat } from 'lucide-react';
+import { RecurrenceFrequency, RecurrenceRule, Weekday } from '@/types';
+import { WEEKDAYS, WEEKDAY_LABELS, describeRecurrence } from '@/lib/recurrence';
+import { cn } from '@/lib/utils';
+
+interface RecurrencePickerProps {
+  value?: RecurrenceRule;
+  deadline?: Date;
+  onChange: (rule: RecurrenceRule | undefined) => void;
+}
+
+const frequencies: { value: RecurrenceFrequency | 'none'; label: string }[] = [
+  { value: 'none', label: 'Never' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'yearly', label: 'Yearly' },
+];
+
+// Monday-first order for the weekday toggles
+const weekdayOrder: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+const setPositions = [
+  { value: 1, label: 'First' },
+  { value: 2, label: 'Second' },
+  { value: 3, label: 'Third' },
+  { value: 4, label: 'Fourth' },
+  { value: -1, label: 'Last' },
+];
+
+const units: Record<RecurrenceFrequency, string> = {
+  daily: 'day',
+  weekly: 'week',
+  monthly: 'month',
+  yearly: 'year',
+};
+
+const inputClass = "h-9 px-3 rounded-lg border-2 border-input bg-background text-foreground text-sm focus:border-primary/50 focus:outline-none transition-colors";
+
+/**
+ * Drop keys that are undefined so the rule can be stored as-is
+ */
+const compact = (rule: RecurrenceRule): RecurrenceRule =>
+  Object.fromEntries(Object.entries(rule).filter(([, v]) => v !== undefined)) as unknown as RecurrenceRule;
+
+export const RecurrencePicker: React.FC<RecurrencePickerProps> = ({ value, deadline, onChange }) => {
+  const anchor = deadline && !isNaN(deadline.getTime()) ? deadline : new Date();
+  const anchorWeekday = WEEKDAYS[anchor.getDay()];
+
+  const update = (changes: Partial<RecurrenceRule>) => {
+    if (!value) return;
+    onChange(compact({ ...value, ...changes }));
+  };
+
+  const selectFrequency = (frequency: RecurrenceFrequency | 'none') => {
+    if (frequency === 'none') {
+      onChange(undefined);
+      return;
+    }
+    onChange(compact({
+      frequency,
+      interval: value?.interval ?? 1,
+      byWeekday: frequency === 'weekly' ? [anchorWeekday] : undefined,
+      count: value?.count,
+      until: value?.until,
+    }));
+  };
+
+  const toggleWeekday = (day: Weekday) => {
+    if (!value) return;
+    const current = value.byWeekday ?? [];
+    const next = current.includes(day) ? current.filter(d => d !== day) : [...current, day];
+    update({ byWeekday: next.length > 0 ? next : undefined });
+  };
+
+  const endMode = value?.count ? 'count' : value?.until ? 'until' : 'never';
+  const monthlyMode = value?.bySetPos ? 'weekday' : 'date';
+
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+        <Repeat className="w-4 h-4" /> Repeat
+      </label>
+      <div className="flex flex-wrap gap-2">
+        {frequencies.map((f) => (
+          <button
+            key={f.value}
+            type="button"
+            onClick={() => selectFrequency(f.value)}
+            className={cn(
+              "px-3 py-1.5 rounded-full text-sm font-medium transition-all",
+              (value?.frequency ?? 'none') === f.value
+                ? "bg-primary text-primary-foreground"
+                : "bg-muted text-muted-foreground hover:bg-muted/80"
+            )}
+          >
+            {f.label}
+          </button>
+        ))}
+      </div>
+
+      {value && (
+        <div className="space-y-3 rounded-lg bg-muted/40 p-3">
+          <div className="flex items-center gap-2 text-sm text-foreground">
+            Every
+            <input
+              type="number"
+              min={1}
+              value={value.interval}
+              onChange={(e) => update({ interval: Math.max(1, Number(e.target.value) || 1) })}
+              className={cn(inputClass, "w-16")}
+            />
+            {units[value.frequency]}{value.interval > 1 ? 's' : ''}
+          </div>
+
+          {(value.frequency === 'daily' || value.frequency === 'weekly') && (
+            <div className="flex flex-wrap gap-1">
+              {value.frequency === 'daily' && (
+                <button
+                  type="button"
+                  onClick={() => update({ byWeekday: ['MO', 'TU', 'WE', 'TH', 'FR'] })}
+                  className="px-2 py-1 rounded-md text-xs font-medium bg-muted text-muted-foreground hover:bg-muted/80"
+                >
+                  Weekdays only
+                </button>
+              )}
+              {weekdayOrder.map((day) => (
+                <button
+                  key={day}
+                  type="button"
+                  onClick={() => toggleWeekday(day)}
+                  aria-pressed={value.byWeekday?.includes(day) ?? false}
+                  className={cn(
+                    "w-9 py-1 rounded-md text-xs font-medium transition-all",
+                    value.byWeekday?.includes(day)
+                      ? "bg-primary text-primary-foreground"
+                      : "bg-muted text-muted-foreground hover:bg-muted/80"
+                  )}
+                >
+                  {WEEKDAY_LABELS[day].slice(0, 2)}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {(value.frequency === 'monthly' || value.frequency === 'yearly') && (
+            <div className="flex flex-wrap items-center gap-2 text-sm text-foreground">
+              <select
+                value={monthlyMode}
+                onChange={(e) => update(e.target.value === 'weekday'
+                  ? { bySetPos: Math.min(4, Math.ceil(anchor.getDate() / 7)), byWeekday: [anchorWeekday] }
+                  : { bySetPos: undefined, byWeekday: undefined })}
+                className={inputClass}
+              >
+                <option value="date">On day {anchor.getDate()}</option>
+                <option value="weekday">On the</option>
+              </select>
+              {monthlyMode === 'weekday' && (
+                <>
+                  <select
+                    value={value.bySetPos}
+                    onChange={(e) => update({ bySetPos: Number(e.target.value) })}
+                    className={inputClass}
+                  >
+                    {setPositions.map((p) => (
+                      <option key={p.value} value={p.value}>{p.label}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={value.byWeekday?.[0] ?? anchorWeekday}
+                    onChange={(e) => update({ byWeekday: [e.target.value as Weekday] })}
+                    className={inputClass}
+                  >
+                    {weekdayOrder.map((day) => (
+                      <option key={day} value={day}>{WEEKDAY_LABELS[day]}</option>
+                    ))}
+                  </select>
+                </>
+              )}
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2 text-sm text-foreground">
+            Ends
+            <select
+              value={endMode}
+              onChange={(e) => {
+                const mode = e.target.value;
+                update({
+                  count: mode === 'count' ? 10 : undefined,
+                  until: mode === 'until' ? new Date(anchor.getFullYear(), anchor.getMonth() + 3, anchor.getDate()) : undefined,
+                });
+              }}
+              className={inputClass}
+            >
+              <option value="never">Never</option>
+              <option value="count">After</option>
+              <option value="until">On date</option>
+            </select>
+            {endMode === 'count' && (
+              <>
+                <input
+                  type="number"
+                  min={1}
+                  value={value.count}
+                  onChange={(e) => update({ count: Math.max(1, Number(e.target.value) || 1) })}
+                  className={cn(inputClass, "w-20")}
+                />
+                occurrences
+              </>
+            )}
+            {endMode === 'until' && value.until && (
+              <input
+                type="date"
+                value={format(new Date(value.until), 'yyyy-MM-dd')}
+                onChange={(e) => e.target.value && update({ until: new Date(`${e.target.value}T23:59:59`) })}
+                className={inputClass}
+              />
+            )}
+          </div>
+
+          <p className="text-xs text-muted-foreground">{describeRecurrence(value)}</p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { Bell, Plus, X } from 'lucide-react';
+import { TaskReminder } from '@/types';
+import { createReminder, describeReminder, REMINDER_PRESETS } from '@/lib/reminders';
+import { notificationsSupported, requestNotificationPermission } from '@/services/notifications';
+import { cn } from '@/lib/utils';
+
+interface ReminderPickerProps {
+  value: TaskReminder[];
+  onChange: (reminders: TaskReminder[]) => void;
+}
+
+const customUnits = [
+  { minutes: 1, label: 'minutes' },
+  { minutes: 60, label: 'hours' },
+  { minutes: 24 * 60, label: 'days' },
+];
+
+const inputClass = "h-9 px-3 rounded-lg border-2 border-input bg-background text-foreground text-sm focus:border-primary/50 focus:outline-none transition-colors";
+
+export const ReminderPicker: React.FC<ReminderPickerProps> = ({ value, onChange }) => {
+  const [amount, setAmount] = useState(30);
+  const [unit, setUnit] = useState(1);
+  const [permission, setPermission] = useState<NotificationPermission | null>(
+    notificationsSupported() ? Notification.permission : null
+  );
+
+  const add = async (minutesBefore: number) => {
+    if (value.some(r => r.minutesBefore === minutesBefore)) return;
+    onChange([...value, createReminder(minutesBefore)].sort((a, b) => b.minutesBefore - a.minutesBefore));
+    // Adding a reminder is the user gesture browsers want before asking
+    setPermission(await requestNotificationPermission());
+  };
+
+  const remove = (id: string) => onChange(value.filter(r => r.id !== id));
+
+  const custom = value.filter(r => !REMINDER_PRESETS.some(p => p.minutes === r.minutesBefore));
+
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+        <Bell className="w-4 h-4" /> Reminders
+      </label>
+      <div className="flex flex-wrap gap-2">
+        {REMINDER_PRESETS.map(preset => {
+          const existing = value.find(r => r.minutesBefore === preset.minutes);
+          return (
+            <button
+              key={preset.minutes}
+              type="button"
+              onClick={() => (existing ? remove(existing.id) : add(preset.minutes))}
+              aria-pressed={Boolean(existing)}
+              className={cn(
+                "px-3 py-1.5 rounded-full text-sm font-medium transition-all",
+                existing ? "bg-primary text-primary-foreground" : "bg-muted text-muted-foreground hover:bg-muted/80"
+              )}
+            >
+              {preset.label}
+            </button>
+          );
+        })}
+        {custom.map(reminder => (
+          <span
+            key={reminder.id}
+            className="px-3 py-1.5 rounded-full text-sm font-medium bg-primary text-primary-foreground flex items-center gap-1"
+          >
+            {describeReminder(reminder.minutesBefore)}
+            <button type="button" onClick={() => remove(reminder.id)} aria-label="Remove reminder">
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2 text-sm text-foreground">
+        <input
+          type="number"
+          min={0}
+          value={amount}
+          onChange={(e) => setAmount(Math.max(0, Number(e.target.value) || 0))}
+          className={cn(inputClass, "w-20")}
+          aria-label="Custom reminder amount"
+        />
+        <select value={unit} onChange={(e) => setUnit(Number(e.target.value))} className={inputClass} aria-label="Custom reminder unit">
+          {customUnits.map(u => (
+            <option key={u.minutes} value={u.minutes}>{u.label}</option>
+          ))}
+        </select>
+        before
+        <button
+          type="button"
+          onClick={() => add(amount * unit)}
+          className="ml-auto px-3 py-1.5 rounded-full text-sm font-medium bg-muted text-muted-foreground hover:bg-muted/80 flex items-center gap-1"
+        >
+          <Plus className="w-3 h-3" /> Add
+        </button>
+      </div>
+
+      {value.length > 0 && permission !== 'granted' && (
+        <p className="text-xs text-muted-foreground">
+          {permission === null
+            ? 'This browser does not support notifications.'
+            : 'Allow notifications for this site to receive reminders.'}
+        </p>
+      )}
+    </div>
+  );
+};
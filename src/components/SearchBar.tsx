@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { Bookmark, Search, X } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+
+interface SearchBarProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Problems found while parsing the query, e.g. an unknown field
+  errors?: string[];
+  // Save the current query as a named view
+  onSaveView?: (name: string) => void;
+}
+
+export const SearchBar: React.FC<SearchBarProps> = ({ value, onChange, errors = [], onSaveView }) => {
+  const [viewName, setViewName] = useState<string | null>(null);
+
+  const saveView = () => {
+    if (onSaveView && viewName?.trim()) onSaveView(viewName.trim());
+    setViewName(null);
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground pointer-events-none" />
+          <Input
+            type="search"
+            placeholder="Search tasks or filter, e.g. priority:high due:<7d"
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            onKeyDown={(e) => e.key === 'Escape' && onChange('')}
+            className="pl-9 pr-9 rounded-full bg-card"
+            aria-label="Search tasks"
+          />
+          {value && (
+            <button
+              type="button"
+              onClick={() => onChange('')}
+              className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+              aria-label="Clear search"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+
+        {onSaveView && value.trim() && (viewName === null ? (
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            onClick={() => setViewName('')}
+            title="Save as view"
+            aria-label="Save as view"
+          >
+            <Bookmark className="w-4 h-4" />
+          </Button>
+        ) : (
+          <Input
+            autoFocus
+            placeholder="View name"
+            value={viewName}
+            onChange={(e) => setViewName(e.target.value)}
+            onBlur={saveView}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') saveView();
+              else if (e.key === 'Escape') setViewName(null);
+            }}
+            className="w-36 rounded-full bg-card"
+            aria-label="View name"
+          />
+        ))}
+      </div>
+
+      {errors.length > 0 && (
+        <p className="px-3 text-xs text-destructive">{errors.join(' · ')}</p>
+      )}
+    </div>
+  );
+};
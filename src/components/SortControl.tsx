@@ -0,0 +1,46 @@
+import React from 'react';
+import { ArrowDownWideNarrow, ArrowUpNarrowWide } from 'lucide-react';
+import { SortPreference, SortStrategy } from '@/types';
+import { SORT_OPTIONS } from '@/lib/sort';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface SortControlProps {
+  value: SortPreference;
+  onChange: (sort: SortPreference) => void;
+}
+
+export const SortControl: React.FC<SortControlProps> = ({ value, onChange }) => {
+  const selectStrategy = (strategy: SortStrategy) => {
+    // Each strategy starts in its natural direction, e.g. most urgent first
+    const option = SORT_OPTIONS.find(o => o.value === strategy);
+    onChange({ strategy, direction: option?.defaultDirection ?? 'asc' });
+  };
+
+  const ascending = value.direction === 'asc';
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-sm text-muted-foreground">Sort</span>
+      <Select value={value.strategy} onValueChange={v => selectStrategy(v as SortStrategy)}>
+        <SelectTrigger className="h-9 w-36 rounded-full bg-card" aria-label="Sort tasks by">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {SORT_OPTIONS.map(option => (
+            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button
+        variant="ghost"
+        size="icon-sm"
+        onClick={() => onChange({ ...value, direction: ascending ? 'desc' : 'asc' })}
+        title={ascending ? 'Ascending' : 'Descending'}
+        aria-label={ascending ? 'Sort ascending, switch to descending' : 'Sort descending, switch to ascending'}
+      >
+        {ascending ? <ArrowUpNarrowWide className="w-4 h-4" /> : <ArrowDownWideNarrow className="w-4 h-4" />}
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,117 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Reorder, useDragControls } from 'framer-motion';
+import { GripVertical } from 'lucide-react';
+import { Task } from '@/types';
+
+interface SortableTaskListProps {
+  tasks: Task[];
+  // Called once a task has been dropped, with the new order of the list
+  onMove: (taskId: string, orderedIds: string[]) => void;
+  renderTask: (task: Task) => React.ReactNode;
+}
+
+interface SortableItemProps {
+  task: Task;
+  position: number;
+  total: number;
+  onDragEnd: () => void;
+  onKeyboardMove: (offset: -1 | 1) => void;
+  children: React.ReactNode;
+}
+
+const SortableItem: React.FC<SortableItemProps> = ({ task, position, total, onDragEnd, onKeyboardMove, children }) => {
+  const controls = useDragControls();
+
+  return (
+    <Reorder.Item
+      value={task.id}
+      dragListener={false}
+      dragControls={controls}
+      onDragEnd={onDragEnd}
+      className="flex items-stretch gap-2"
+    >
+      <button
+        type="button"
+        // Mouse and touch both start the drag from the handle only, so the
+        // rest of the card can still be scrolled and clicked
+        onPointerDown={(e) => controls.start(e)}
+        onKeyDown={(e) => {
+          if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+            e.preventDefault();
+            onKeyboardMove(e.key === 'ArrowUp' ? -1 : 1);
+          }
+        }}
+        style={{ touchAction: 'none' }}
+        className="flex items-center px-1 rounded-lg text-muted-foreground hover:text-foreground cursor-grab active:cursor-grabbing focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+        aria-label={`Reorder "${task.title}", position ${position} of ${total}. Use the arrow keys to move.`}
+      >
+        <GripVertical className="w-4 h-4" />
+      </button>
+      <div className="flex-1 min-w-0">{children}</div>
+    </Reorder.Item>
+  );
+};
+
+export const SortableTaskList: React.FC<SortableTaskListProps> = ({ tasks, onMove, renderTask }) => {
+  const ids = tasks.map(t => t.id);
+  const [order, setOrder] = useState(ids);
+  const [announcement, setAnnouncement] = useState('');
+  // Order when the current drag started, to skip drops that changed nothing
+  const dragStartRef = useRef<string[] | null>(null);
+  // Latest order, read when the drag ends
+  const orderRef = useRef(order);
+  orderRef.current = order;
+
+  // Follow the task list unless a drag is in progress
+  const idsKey = ids.join(',');
+  useEffect(() => {
+    if (!dragStartRef.current) setOrder(idsKey ? idsKey.split(',') : []);
+  }, [idsKey]);
+
+  const byId = new Map(tasks.map(t => [t.id, t]));
+  const visible = order.filter(id => byId.has(id));
+
+  const handleReorder = (next: string[]) => {
+    dragStartRef.current ??= visible;
+    setOrder(next);
+  };
+
+  const handleDragEnd = (taskId: string) => {
+    const before = dragStartRef.current;
+    dragStartRef.current = null;
+    const after = orderRef.current.filter(id => byId.has(id));
+    if (before && before.join(',') !== after.join(',')) onMove(taskId, after);
+  };
+
+  const moveByKeyboard = (taskId: string, offset: -1 | 1) => {
+    const index = visible.indexOf(taskId);
+    const target = index + offset;
+    if (index === -1 || target < 0 || target >= visible.length) return;
+
+    const next = [...visible];
+    [next[index], next[target]] = [next[target], next[index]];
+    setOrder(next);
+    onMove(taskId, next);
+    setAnnouncement(`Moved "${byId.get(taskId)?.title}" to position ${target + 1} of ${next.length}`);
+  };
+
+  return (
+    <>
+      <Reorder.Group axis="y" values={visible} onReorder={handleReorder} className="space-y-3">
+        {visible.map((id, index) => (
+          <SortableItem
+            key={id}
+            task={byId.get(id)!}
+            position={index + 1}
+            total={visible.length}
+            onDragEnd={() => handleDragEnd(id)}
+            onKeyboardMove={offset => moveByKeyboard(id, offset)}
+          >
+            {renderTask(byId.get(id)!)}
+          </SortableItem>
+        ))}
+      </Reorder.Group>
+      <p className="sr-only" aria-live="polite">{announcement}</p>
+    </>
+  );
+};
@@ -1,15 +1,28 @@
 import React from 'react';
 import { motion } from 'framer-motion';
 import { CheckCircle, Clock, AlertTriangle, ListTodo } from 'lucide-react';
+import { TaskStats } from '@/types';
 
 interface StatsCardsProps {
-  stats: { total: number; completed: number; pending: number; overdue: number };
+  stats: TaskStats;
 }
 
 export const StatsCards: React.FC<StatsCardsProps> = ({ stats }) => {
   const cards = [
-    { label: 'Total', value: stats.total, icon: ListTodo, className: 'bg-primary/80 text-foreground border border-border/10 shadow-sm' },
-    { label: 'Pending', value: stats.pending, icon: Clock, className: 'bg-warning/80 text-foreground border border-border/10 shadow-sm' },
+    {
+      label: 'Total',
+      value: stats.total,
+      icon: ListTodo,
+      className: 'bg-primary/80 text-foreground border border-border/10 shadow-sm',
+      detail: stats.checklistTotal > 0 ? `${stats.checklistCompleted}/${stats.checklistTotal} steps` : undefined,
+    },
+    {
+      label: 'Pending',
+      value: stats.pending,
+      icon: Clock,
+      className: 'bg-warning/80 text-foreground border border-border/10 shadow-sm',
+      detail: stats.inProgress > 0 ? `${stats.inProgress} in progress` : undefined,
+    },
     { label: 'Done', value: stats.completed, icon: CheckCircle, className: 'bg-success/80 text-foreground border border-border/10 shadow-sm' },
     { label: 'Overdue', value: stats.overdue, icon: AlertTriangle, className: 'bg-destructive/80 text-foreground border border-border/10 shadow-sm' },
   ];
@@ -27,6 +40,9 @@ export const StatsCards: React.FC<StatsCardsProps> = ({ stats }) => {
           <card.icon className="w-5 h-5 mb-1" />
           <p className="text-2xl font-bold text-foreground">{card.value}</p>
           <p className="text-xs text-foreground/100">{card.label}</p>
+          {'detail' in card && card.detail && (
+            <p className="text-[10px] text-foreground/80 mt-0.5">{card.detail}</p>
+          )}
         </motion.div>
       ))}
     </div>
@@ -0,0 +1,74 @@
+import React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { CloudOff, RefreshCw, AlertTriangle, X } from 'lucide-react';
+import { TaskConflict } from '@/types';
+import { Button } from '@/components/ui/button';
+
+interface SyncStatusProps {
+  pendingCount: number;
+  syncing: boolean;
+  conflicts: TaskConflict[];
+  onDismissConflict: (id: string) => void;
+}
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (value instanceof Date) return value.toLocaleString();
+  if (typeof value === 'object') return 'local edits';
+  return String(value);
+};
+
+export const SyncStatus: React.FC<SyncStatusProps> = ({ pendingCount, syncing, conflicts, onDismissConflict }) => {
+  if (pendingCount === 0 && conflicts.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      {pendingCount > 0 && (
+        <div className="flex items-center gap-2 rounded-xl border bg-card px-4 py-2 text-sm text-muted-foreground shadow-sm">
+          {syncing ? <RefreshCw className="w-4 h-4 animate-spin" /> : <CloudOff className="w-4 h-4" />}
+          {syncing
+            ? `Syncing ${pendingCount} change${pendingCount === 1 ? '' : 's'}...`
+            : `${pendingCount} change${pendingCount === 1 ? '' : 's'} waiting to sync`}
+        </div>
+      )}
+
+      <AnimatePresence>
+        {conflicts.map(conflict => (
+          <motion.div
+            key={conflict.id}
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, x: -100 }}
+            className="flex items-start gap-3 rounded-xl border border-warning/50 bg-card px-4 py-3 text-sm shadow-sm"
+          >
+            <AlertTriangle className="w-4 h-4 mt-0.5 text-warning shrink-0" />
+            <div className="flex-1 min-w-0">
+              <p className="font-medium text-foreground truncate">{conflict.taskTitle || 'Untitled task'}</p>
+              {conflict.field === 'deleted' ? (
+                <p className="text-muted-foreground">
+                  This task was deleted on another device, so your offline edits were discarded.
+                </p>
+              ) : (
+                <p className="text-muted-foreground">
+                  <span className="font-medium">{conflict.field}</span> was changed on another device
+                  ({formatValue(conflict.serverValue)}). Kept{' '}
+                  {conflict.resolution === 'local' ? 'your change' : 'the other change'}:{' '}
+                  {formatValue(conflict.resolution === 'local' ? conflict.localValue : conflict.serverValue)}
+                </p>
+              )}
+            </div>
+            <Button
+              variant="ghost"
+              size="icon-sm"
+              className="text-muted-foreground"
+              onClick={() => onDismissConflict(conflict.id)}
+              aria-label="Dismiss conflict"
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </motion.div>
+        ))}
+      </AnimatePresence>
+    </div>
+  );
+};
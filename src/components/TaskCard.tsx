@@ -1,15 +1,30 @@
 import React from 'react';
 import { motion } from 'framer-motion';
+import { Link } from 'react-router-dom';
 import { Task } from '@/types';
-import { format, isPast, isToday } from 'date-fns';
-import { CheckCircle2, Circle, Trash2, Calendar, Flag } from 'lucide-react';
+import { format, isToday } from 'date-fns';
+import { CheckCircle2, Circle, Trash2, Calendar, Flag, Repeat, Pencil, Bell } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
+import { describeRecurrence } from '@/lib/recurrence';
+import { describeReminder } from '@/lib/reminders';
+import { sortChecklist, checklistProgress } from '@/lib/checklist';
+import { Progress } from '@/components/ui/progress';
+import { categoryBadgeStyle } from '@/lib/categories';
+import { isTaskOverdue } from '@/lib/deadlines';
+import { Highlight } from '@/components/Highlight';
+import { Markdown } from '@/components/Markdown';
 
 interface TaskCardProps {
   task: Task;
+  // Current color of the task's category, falling back to task.categoryColor
+  categoryColor?: string;
+  // Active search query, highlighted in the card's text
+  highlight?: string;
   onToggle: () => void;
   onDelete: () => void;
+  onEdit?: () => void;
+  onToggleChecklistItem?: (itemId: string) => void;
 }
 
 const priorityConfig = {
@@ -18,12 +33,14 @@ const priorityConfig = {
   low: { label: 'Low', className: 'priority-low', textClass: 'priority-low-text' },
 };
 
-export const TaskCard: React.FC<TaskCardProps> = ({ task, onToggle, onDelete }) => {
+export const TaskCard: React.FC<TaskCardProps> = ({ task, categoryColor, highlight, onToggle, onDelete, onEdit, onToggleChecklistItem }) => {
   const isCompleted = task.status === 'completed';
   const deadline = new Date(task.deadline);
-  const isOverdue = !isCompleted && isPast(deadline) && !isToday(deadline);
+  const isOverdue = isTaskOverdue(task);
   const isDueToday = !isCompleted && isToday(deadline);
   const priority = priorityConfig[task.priority];
+  const checklist = sortChecklist(task.checklist);
+  const progress = checklistProgress(checklist);
 
   return (
     <motion.div
@@ -51,13 +68,60 @@ export const TaskCard: React.FC<TaskCardProps> = ({ task, onToggle, onDelete })
             "font-semibold text-foreground",
             isCompleted && "line-through text-muted-foreground"
           )}>
-            {task.title}
+            <Link to={`/tasks/${task.id}`} className="hover:underline">
+              <Highlight text={task.title} query={highlight} />
+            </Link>
           </h3>
           
           {task.description && (
-            <p className="text-sm text-muted-foreground mt-1 line-clamp-2">
-              {task.description}
-            </p>
+            // line-clamp only works on a single text block, so the preview is
+            // cut at two lines' height instead
+            <div className="mt-1 max-h-10 overflow-hidden">
+              <Markdown
+                source={task.description}
+                highlight={highlight}
+                className="text-sm text-muted-foreground"
+              />
+            </div>
+          )}
+
+          {checklist.length > 0 && (
+            <div className="mt-3 space-y-1.5">
+              <div className="flex items-center gap-2">
+                <Progress
+                  value={(progress.done / progress.total) * 100}
+                  className="h-1.5 flex-1"
+                  aria-label="Checklist progress"
+                />
+                <span className="text-xs text-muted-foreground tabular-nums">
+                  {progress.done}/{progress.total}
+                </span>
+              </div>
+              <ul className="space-y-1">
+                {checklist.map((item) => (
+                  <li key={item.id}>
+                    <button
+                      type="button"
+                      onClick={() => onToggleChecklistItem?.(item.id)}
+                      disabled={!onToggleChecklistItem}
+                      className="flex items-center gap-2 text-sm text-left w-full"
+                    >
+                      {item.completed ? (
+                        <CheckCircle2 className="w-4 h-4 shrink-0 text-success" />
+                      ) : (
+                        <Circle className="w-4 h-4 shrink-0 text-muted-foreground" />
+                      )}
+                      <span className={cn(
+                        "text-foreground",
+                        item.completed && "line-through text-muted-foreground"
+                      )}>
+                        <Highlight text={item.text} query={highlight} />
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
           )}
 
           <div className="flex flex-wrap items-center gap-2 mt-3">
@@ -79,22 +143,56 @@ export const TaskCard: React.FC<TaskCardProps> = ({ task, onToggle, onDelete })
               {format(deadline, 'MMM d, h:mm a')}
             </span>
 
+            {task.recurrence && (
+              <span className="px-2 py-0.5 rounded-full text-xs font-medium flex items-center gap-1 bg-muted text-muted-foreground">
+                <Repeat className="w-3 h-3" />
+                {describeRecurrence(task.recurrence)}
+              </span>
+            )}
+
+            {task.reminders && task.reminders.length > 0 && !isCompleted && (
+              <span
+                className="px-2 py-0.5 rounded-full text-xs font-medium flex items-center gap-1 bg-muted text-muted-foreground"
+                title={task.reminders.map(r => describeReminder(r.minutesBefore)).join(', ')}
+              >
+                <Bell className="w-3 h-3" />
+                {task.reminders.length}
+              </span>
+            )}
+
             {task.category && (
-              <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-accent text-accent-foreground">
-                {task.category}
+              <span
+                className="px-2 py-0.5 rounded-full text-xs font-medium bg-accent text-accent-foreground"
+                style={categoryBadgeStyle(categoryColor ?? task.categoryColor)}
+              >
+                <Highlight text={task.category} query={highlight} />
               </span>
             )}
           </div>
         </div>
 
-        <Button
-          variant="ghost"
-          size="icon-sm"
-          onClick={onDelete}
-          className="text-muted-foreground hover:text-destructive"
-        >
-          <Trash2 className="w-4 h-4" />
-        </Button>
+        <div className="flex flex-col gap-1">
+          {onEdit && (
+            <Button
+              variant="ghost"
+              size="icon-sm"
+              onClick={onEdit}
+              className="text-muted-foreground hover:text-foreground"
+              aria-label="Edit task"
+            >
+              <Pencil className="w-4 h-4" />
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            onClick={onDelete}
+            className="text-muted-foreground hover:text-destructive"
+            aria-label="Delete task"
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
       </div>
     </motion.div>
   );
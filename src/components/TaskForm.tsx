@@ -1,11 +1,21 @@
 import React, { useState } from 'react';
 import { motion } from 'framer-motion';
-import { TaskFormData, Priority } from '@/types';
+import { Task, TaskFormData, Priority, RecurrenceRule, ChecklistItem, Category, TaskReminder } from '@/types';
+import { format } from 'date-fns';
 import { Button } from '@/components/ui/button';
-import { X, Flag, Calendar, Tag } from 'lucide-react';
+import { X, Flag, Calendar, Tag, Plus } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { RecurrencePicker } from '@/components/RecurrencePicker';
+import { ChecklistEditor } from '@/components/ChecklistEditor';
+import { ReminderPicker } from '@/components/ReminderPicker';
+import { Markdown } from '@/components/Markdown';
+import { categoryBadgeStyle } from '@/lib/categories';
 
 interface TaskFormProps {
+  // When given, the form edits this task instead of creating a new one
+  task?: Task;
+  categories: Category[];
+  onCreateCategory?: (name: string) => Promise<Category>;
   onSubmit: (data: TaskFormData) => void;
   onClose: () => void;
 }
@@ -16,18 +26,47 @@ const priorities: { value: Priority; label: string; className: string }[] = [
   { value: 'high', label: 'High', className: 'priority-high' },
 ];
 
-const categories = ['Work', 'Personal', 'Shopping', 'Health', 'Study'];
+// datetime-local inputs expect local time without seconds or zone
+const toInputValue = (date: Date) => format(new Date(date), "yyyy-MM-dd'T'HH:mm");
 
-export const TaskForm: React.FC<TaskFormProps> = ({ onSubmit, onClose }) => {
-  const [title, setTitle] = useState('');
-  const [description, setDescription] = useState('');
-  const [deadline, setDeadline] = useState('');
-  const [priority, setPriority] = useState<Priority>('medium');
-  const [category, setCategory] = useState('');
+export const TaskForm: React.FC<TaskFormProps> = ({ task, categories, onCreateCategory, onSubmit, onClose }) => {
+  const isEditing = Boolean(task);
+  const [title, setTitle] = useState(task?.title ?? '');
+  const [description, setDescription] = useState(task?.description ?? '');
+  const [previewDescription, setPreviewDescription] = useState(false);
+  const [deadline, setDeadline] = useState(task ? toInputValue(task.deadline) : '');
+  const [priority, setPriority] = useState<Priority>(task?.priority ?? 'medium');
+  const [category, setCategory] = useState(task?.category ?? '');
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | undefined>(task?.recurrence);
+  const [checklist, setChecklist] = useState<ChecklistItem[]>(task?.checklist ?? []);
+  const [reminders, setReminders] = useState<TaskReminder[]>(task?.reminders ?? []);
+  const [newCategory, setNewCategory] = useState<string | null>(null);
+  const [categoryError, setCategoryError] = useState<string | null>(null);
+
+  // Keep a category that no longer exists selectable while editing
+  const categoryOptions: Category[] = task?.category && !categories.some(c => c.name === task.category)
+    ? [...categories, { id: task.category, name: task.category, color: task.categoryColor ?? '' }]
+    : categories;
+
+  const createCategory = async () => {
+    if (!onCreateCategory || !newCategory?.trim()) {
+      setNewCategory(null);
+      return;
+    }
+    try {
+      const created = await onCreateCategory(newCategory);
+      setCategory(created.name);
+      setNewCategory(null);
+      setCategoryError(null);
+    } catch (err) {
+      setCategoryError(err instanceof Error ? err.message : 'Failed to create category');
+    }
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!title.trim() || !deadline) return;
+    const deadlineChanged = !task || new Date(deadline).getTime() !== new Date(task.deadline).getTime();
 
     onSubmit({
       title: title.trim(),
@@ -35,6 +74,15 @@ export const TaskForm: React.FC<TaskFormProps> = ({ onSubmit, onClose }) => {
       deadline: new Date(deadline),
       priority,
       category: category || undefined,
+      categoryColor: categoryOptions.find(c => c.name === category)?.color || undefined,
+      recurrence,
+      checklist: checklist
+        .filter(item => item.text.trim())
+        .map(item => ({ ...item, text: item.text.trim() })),
+      // A changed deadline re-arms reminders that already fired
+      reminders: deadlineChanged
+        ? reminders.map(r => ({ ...r, firedAt: undefined, snoozedUntil: undefined }))
+        : reminders,
     });
   };
 
@@ -51,10 +99,10 @@ export const TaskForm: React.FC<TaskFormProps> = ({ onSubmit, onClose }) => {
         animate={{ y: 0, opacity: 1 }}
         exit={{ y: 100, opacity: 0 }}
         onClick={(e) => e.stopPropagation()}
-        className="w-full max-w-md bg-card rounded-2xl shadow-xl border p-6 space-y-5"
+        className="w-full max-w-md max-h-[90vh] overflow-y-auto bg-card rounded-2xl shadow-xl border p-6 space-y-5"
       >
         <div className="flex items-center justify-between">
-          <h2 className="text-xl font-bold text-foreground">New Task</h2>
+          <h2 className="text-xl font-bold text-foreground">{isEditing ? 'Edit Task' : 'New Task'}</h2>
           <Button variant="ghost" size="icon-sm" onClick={onClose}>
             <X className="w-5 h-5" />
           </Button>
@@ -70,13 +118,47 @@ export const TaskForm: React.FC<TaskFormProps> = ({ onSubmit, onClose }) => {
             required
           />
 
-          <textarea
-            placeholder="Description (optional)..."
-            value={description}
-            onChange={(e) => setDescription(e.target.value)}
-            rows={3}
-            className="w-full px-4 py-3 rounded-lg border-2 border-input bg-background text-foreground placeholder:text-muted-foreground focus:border-primary/50 focus:outline-none transition-colors resize-none"
-          />
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-muted-foreground">Markdown: **bold**, *italic*, `code`, [links](https://…), - [ ] lists</span>
+              <div className="flex gap-1">
+                {[false, true].map((preview) => (
+                  <button
+                    key={String(preview)}
+                    type="button"
+                    onClick={() => setPreviewDescription(preview)}
+                    className={cn(
+                      "px-3 py-1 rounded-full text-xs font-medium transition-all",
+                      previewDescription === preview
+                        ? "gradient-primary text-primary-foreground shadow-md"
+                        : "bg-muted text-muted-foreground hover:bg-muted/80"
+                    )}
+                  >
+                    {preview ? 'Preview' : 'Write'}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {previewDescription ? (
+              <div className="min-h-[5.5rem] px-4 py-3 rounded-lg border-2 border-input bg-background">
+                {description.trim() ? (
+                  <Markdown source={description} className="text-sm text-foreground" />
+                ) : (
+                  <p className="text-sm text-muted-foreground">Nothing to preview</p>
+                )}
+              </div>
+            ) : (
+              <textarea
+                placeholder="Description (optional)..."
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                rows={3}
+                className="w-full px-4 py-3 rounded-lg border-2 border-input bg-background text-foreground placeholder:text-muted-foreground focus:border-primary/50 focus:outline-none transition-colors resize-none"
+              />
+            )}
+          </div>
+
+          <ChecklistEditor items={checklist} onChange={setChecklist} />
 
           <div className="space-y-2">
             <label className="text-sm font-medium text-muted-foreground flex items-center gap-2">
@@ -117,26 +199,64 @@ export const TaskForm: React.FC<TaskFormProps> = ({ onSubmit, onClose }) => {
               <Tag className="w-4 h-4" /> Category
             </label>
             <div className="flex flex-wrap gap-2">
-              {categories.map((cat) => (
+              {categoryOptions.map((cat) => (
                 <button
-                  key={cat}
+                  key={cat.id}
                   type="button"
-                  onClick={() => setCategory(category === cat ? '' : cat)}
+                  onClick={() => setCategory(category === cat.name ? '' : cat.name)}
+                  style={category === cat.name ? undefined : categoryBadgeStyle(cat.color)}
                   className={cn(
                     "px-3 py-1.5 rounded-full text-sm font-medium transition-all",
-                    category === cat
+                    category === cat.name
                       ? "bg-primary text-primary-foreground"
                       : "bg-muted text-muted-foreground hover:bg-muted/80"
                   )}
                 >
-                  {cat}
+                  {cat.name}
                 </button>
               ))}
+              {onCreateCategory && (newCategory === null ? (
+                <button
+                  type="button"
+                  onClick={() => setNewCategory('')}
+                  className="px-3 py-1.5 rounded-full text-sm font-medium bg-muted text-muted-foreground hover:bg-muted/80 flex items-center gap-1"
+                >
+                  <Plus className="w-3 h-3" /> New
+                </button>
+              ) : (
+                <input
+                  type="text"
+                  autoFocus
+                  placeholder="Category name"
+                  value={newCategory}
+                  onChange={(e) => setNewCategory(e.target.value)}
+                  onBlur={createCategory}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      createCategory();
+                    } else if (e.key === 'Escape') {
+                      e.stopPropagation();
+                      setNewCategory(null);
+                    }
+                  }}
+                  className="h-8 w-36 px-3 rounded-full border-2 border-input bg-background text-foreground text-sm focus:border-primary/50 focus:outline-none"
+                />
+              ))}
             </div>
+            {categoryError && <p className="text-xs text-destructive">{categoryError}</p>}
           </div>
 
+          <ReminderPicker value={reminders} onChange={setReminders} />
+
+          <RecurrencePicker
+            value={recurrence}
+            deadline={deadline ? new Date(deadline) : undefined}
+            onChange={setRecurrence}
+          />
+
           <Button type="submit" variant="gradient" size="lg" className="w-full">
-            Create Task
+            {isEditing ? 'Save Changes' : 'Create Task'}
           </Button>
         </form>
       </motion.div>
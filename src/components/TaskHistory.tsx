@@ -0,0 +1,69 @@
+import React from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { History } from 'lucide-react';
+import { Task, TaskChange } from '@/types';
+import { FIELD_LABELS, formatChangeValue } from '@/lib/taskHistory';
+
+interface TaskHistoryProps {
+  task: Task;
+}
+
+const describeChange = (change: TaskChange): React.ReactNode => {
+  const label = FIELD_LABELS[change.field] ?? change.field;
+  if (change.field === 'status') {
+    return change.newValue === 'completed' ? 'Marked completed' : 'Reopened';
+  }
+  if (change.field === 'description') {
+    return change.newValue ? 'Description edited' : 'Description cleared';
+  }
+  return (
+    <>
+      {label}: <span className="line-through text-muted-foreground">{formatChangeValue(change.field, change.oldValue)}</span>
+      {' → '}
+      <span className="font-medium">{formatChangeValue(change.field, change.newValue)}</span>
+    </>
+  );
+};
+
+/**
+ * Timeline of a task's edits, newest first, ending with its creation
+ */
+export const TaskHistory: React.FC<TaskHistoryProps> = ({ task }) => {
+  const entries = [...(task.changes ?? [])].reverse();
+
+  const timestamp = (date: Date) => (
+    <time
+      dateTime={new Date(date).toISOString()}
+      title={format(new Date(date), 'MMM d, yyyy h:mm a')}
+      className="text-xs text-muted-foreground shrink-0"
+    >
+      {formatDistanceToNow(new Date(date), { addSuffix: true })}
+    </time>
+  );
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+        <History className="w-4 h-4" /> History
+      </h3>
+      <ol className="border-l-2 border-border ml-2 space-y-3">
+        {entries.map((change, index) => (
+          <li key={`${change.field}-${index}`} className="relative pl-4">
+            <span className="absolute -left-[5px] top-1.5 w-2 h-2 rounded-full bg-primary" />
+            <div className="flex items-baseline justify-between gap-3 text-sm text-foreground">
+              <span className="min-w-0 break-words">{describeChange(change)}</span>
+              {timestamp(change.changedAt)}
+            </div>
+          </li>
+        ))}
+        <li className="relative pl-4">
+          <span className="absolute -left-[5px] top-1.5 w-2 h-2 rounded-full bg-muted-foreground" />
+          <div className="flex items-baseline justify-between gap-3 text-sm text-foreground">
+            <span>Created</span>
+            {timestamp(task.createdAt)}
+          </div>
+        </li>
+      </ol>
+    </div>
+  );
+};
@@ -92,6 +92,9 @@ const TopNav: React.FC = () => {
             );
           })()}
           <Button variant="ghost" size="sm" onClick={() => navigate('/')} aria-label="Home">Home</Button>
+          <Button variant="ghost" size="sm" onClick={() => navigate('/calendar')} aria-label="Calendar">Calendar</Button>
+          <Button variant="ghost" size="sm" onClick={() => navigate('/trash')} aria-label="Trash">Trash</Button>
+          <Button variant="ghost" size="sm" onClick={() => navigate('/archive')} aria-label="Archive">Archive</Button>
           <Button variant="ghost" size="sm" onClick={() => navigate('/settings')} aria-label="Settings">Settings</Button>
           <Button variant="ghost" size="sm" onClick={handleLogout} aria-label="Logout">Logout</Button>
           <Button
@@ -0,0 +1,300 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { Download, Upload, FileUp, AlertTriangle } from 'lucide-react';
+import { ImportedTask, Task } from '@/types';
+import { TASK_FORMATS, TaskFormat, formatForFile, downloadFile, findDuplicates, ParseResult } from '@/lib/formats';
+import { CSV_FIELDS, CsvField, CsvMapping, csvRowsToTasks, guessCsvMapping, parseCsvRows } from '@/lib/formats/csv';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface TransferDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tasks: Task[];
+  // Tasks in the current filter, search and view
+  visibleTasks: Task[];
+  // Archived tasks are not in `tasks`, so "All tasks" fetches them
+  loadArchived: () => Promise<Task[]>;
+  onImport: (tasks: ImportedTask[]) => Promise<void>;
+}
+
+type Mode = 'export' | 'import';
+type Scope = 'all' | 'visible';
+
+interface LoadedFile {
+  name: string;
+  format: TaskFormat;
+  text: string;
+  // Parsed CSV rows, header first, for re-mapping columns
+  csvRows?: string[][];
+}
+
+const IGNORE = 'ignore';
+
+// Rows shown in the import preview
+const PREVIEW_LIMIT = 50;
+
+const chipClass = (active: boolean) => cn(
+  "px-4 py-2 rounded-full text-sm font-medium transition-all",
+  active ? "gradient-primary text-primary-foreground shadow-md" : "bg-muted text-muted-foreground hover:bg-muted/80"
+);
+
+export const TransferDialog: React.FC<TransferDialogProps> = ({ open, onOpenChange, tasks, visibleTasks, loadArchived, onImport }) => {
+  const [mode, setMode] = useState<Mode>('export');
+  const [scope, setScope] = useState<Scope>('all');
+  const [file, setFile] = useState<LoadedFile | null>(null);
+  const [readError, setReadError] = useState<string | null>(null);
+  const [mapping, setMapping] = useState<CsvMapping>({});
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [importing, setImporting] = useState(false);
+  const [archived, setArchived] = useState<Task[] | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setArchived(null);
+    loadArchived()
+      .then(setArchived)
+      .catch(e => {
+        console.error('Failed to load archived tasks:', e);
+        setArchived([]);
+      });
+  }, [open, loadArchived]);
+
+  // Every task, archived ones included, for backups and duplicate checks
+  const allTasks = useMemo(() => {
+    const loaded = new Set(tasks.map(t => t.id));
+    return [...tasks, ...(archived ?? []).filter(t => !loaded.has(t.id))];
+  }, [tasks, archived]);
+
+  const exported = scope === 'all' ? allTasks : visibleTasks;
+
+  const exportAs = (taskFormat: TaskFormat) => {
+    const name = `donezit-tasks-${format(new Date(), 'yyyy-MM-dd')}.${taskFormat.extension}`;
+    downloadFile(name, taskFormat.serialize(exported), taskFormat.mimeType);
+  };
+
+  const loadFile = async (selected: File) => {
+    const taskFormat = formatForFile(selected.name);
+    if (!taskFormat) {
+      setFile(null);
+      setReadError(`Unsupported file type. Use ${TASK_FORMATS.map(f => `.${f.extension}`).join(', ')}.`);
+      return;
+    }
+    try {
+      const text = await selected.text();
+      const csvRows = taskFormat.id === 'csv' ? parseCsvRows(text) : undefined;
+      setMapping(csvRows ? guessCsvMapping(csvRows[0] ?? []) : {});
+      setFile({ name: selected.name, format: taskFormat, text, csvRows });
+      setReadError(null);
+    } catch (e) {
+      console.error('Failed to read import file:', e);
+      setFile(null);
+      setReadError('Could not read the file');
+    }
+  };
+
+  const parsed: ParseResult | null = useMemo(() => {
+    if (!file) return null;
+    try {
+      return file.csvRows ? csvRowsToTasks(file.csvRows.slice(1), mapping) : file.format.parse(file.text);
+    } catch (e) {
+      return { tasks: [], errors: [e instanceof Error ? e.message : 'Could not parse the file'] };
+    }
+  }, [file, mapping]);
+
+  const duplicates = useMemo(() => (parsed ? findDuplicates(parsed.tasks, allTasks) : []), [parsed, allTasks]);
+  const toImport = parsed
+    ? parsed.tasks.filter((_, i) => !(skipDuplicates && duplicates[i]))
+    : [];
+  const duplicateCount = duplicates.filter(Boolean).length;
+
+  const setColumn = (field: CsvField, value: string) => {
+    const next = { ...mapping };
+    // A column feeds a single field
+    (Object.keys(next) as CsvField[]).forEach(key => {
+      if (String(next[key]) === value) delete next[key];
+    });
+    if (value === IGNORE) delete next[field];
+    else next[field] = Number(value);
+    setMapping(next);
+  };
+
+  const reset = () => {
+    setFile(null);
+    setReadError(null);
+    setMapping({});
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+    try {
+      await onImport(toImport);
+      reset();
+      onOpenChange(false);
+    } catch {
+      // The caller reports the error; keep the preview for another try
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={next => {
+        if (!next) reset();
+        onOpenChange(next);
+      }}
+    >
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import / Export</DialogTitle>
+          <DialogDescription>Move tasks in and out as JSON, CSV, a Markdown checklist or todo.txt.</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2" role="tablist">
+          <button role="tab" aria-selected={mode === 'export'} className={chipClass(mode === 'export')} onClick={() => setMode('export')}>
+            <Download className="w-4 h-4 inline mr-1" /> Export
+          </button>
+          <button role="tab" aria-selected={mode === 'import'} className={chipClass(mode === 'import')} onClick={() => setMode('import')}>
+            <Upload className="w-4 h-4 inline mr-1" /> Import
+          </button>
+        </div>
+
+        {mode === 'export' ? (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-muted-foreground">Tasks</p>
+              <div className="flex flex-wrap gap-2">
+                <button className={chipClass(scope === 'all')} onClick={() => setScope('all')} aria-pressed={scope === 'all'}>
+                  All tasks ({archived ? allTasks.length : '…'})
+                </button>
+                <button className={chipClass(scope === 'visible')} onClick={() => setScope('visible')} aria-pressed={scope === 'visible'}>
+                  Current view ({visibleTasks.length})
+                </button>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-muted-foreground">Download as</p>
+              <div className="flex flex-wrap gap-2">
+                {TASK_FORMATS.map(taskFormat => (
+                  <Button key={taskFormat.id} variant="outline" disabled={exported.length === 0 || (scope === 'all' && !archived)} onClick={() => exportAs(taskFormat)}>
+                    {taskFormat.label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={TASK_FORMATS.map(f => `.${f.extension}`).join(',')}
+              className="hidden"
+              onChange={e => {
+                const selected = e.target.files?.[0];
+                if (selected) loadFile(selected);
+              }}
+            />
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+              <FileUp className="w-4 h-4 mr-2" />
+              {file ? file.name : 'Choose a file'}
+            </Button>
+            {readError && <p className="text-sm text-destructive">{readError}</p>}
+
+            {file?.csvRows && file.csvRows.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium text-muted-foreground">Columns</p>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  {CSV_FIELDS.map(field => (
+                    <div key={field.value} className="flex items-center justify-between gap-2">
+                      <span className="text-sm">{field.label}</span>
+                      <Select
+                        value={mapping[field.value] !== undefined ? String(mapping[field.value]) : IGNORE}
+                        onValueChange={value => setColumn(field.value, value)}
+                      >
+                        <SelectTrigger className="h-8 w-40" aria-label={`Column for ${field.label}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={IGNORE}>Not imported</SelectItem>
+                          {file.csvRows![0].map((header, index) => (
+                            <SelectItem key={index} value={String(index)}>{header || `Column ${index + 1}`}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {parsed && (
+              <div className="space-y-3">
+                {parsed.errors.length > 0 && (
+                  <div className="rounded-lg bg-destructive/10 p-3 text-sm text-destructive space-y-1">
+                    {parsed.errors.slice(0, 5).map((error, i) => <p key={i}>{error}</p>)}
+                    {parsed.errors.length > 5 && <p>…and {parsed.errors.length - 5} more</p>}
+                  </div>
+                )}
+
+                {parsed.tasks.length > 0 && (
+                  <div className="max-h-64 overflow-y-auto rounded-lg border">
+                    <table className="w-full text-sm">
+                      <thead className="bg-muted text-muted-foreground">
+                        <tr>
+                          <th className="text-left p-2">Title</th>
+                          <th className="text-left p-2">Deadline</th>
+                          <th className="text-left p-2">Priority</th>
+                          <th className="text-left p-2">Category</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {parsed.tasks.slice(0, PREVIEW_LIMIT).map((task, i) => (
+                          <tr
+                            key={i}
+                            className={cn("border-t", duplicates[i] && "text-muted-foreground", duplicates[i] && skipDuplicates && "line-through")}
+                          >
+                            <td className="p-2">
+                              {duplicates[i] && <AlertTriangle className="w-3 h-3 inline mr-1 text-warning" aria-label="Duplicate" />}
+                              {task.status === 'completed' ? '✓ ' : ''}{task.title}
+                            </td>
+                            <td className="p-2 whitespace-nowrap">{format(task.deadline, 'MMM d, yyyy HH:mm')}</td>
+                            <td className="p-2 capitalize">{task.priority}</td>
+                            <td className="p-2">{task.category ?? ''}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                    {parsed.tasks.length > PREVIEW_LIMIT && (
+                      <p className="p-2 text-xs text-muted-foreground">
+                        and {parsed.tasks.length - PREVIEW_LIMIT} more
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                {duplicateCount > 0 && (
+                  <label className="flex items-center gap-2 text-sm">
+                    <Checkbox checked={skipDuplicates} onCheckedChange={checked => setSkipDuplicates(checked === true)} />
+                    Skip {duplicateCount} duplicate{duplicateCount === 1 ? '' : 's'}
+                  </label>
+                )}
+
+                <Button variant="gradient" className="w-full" disabled={toImport.length === 0 || importing} onClick={handleImport}>
+                  {importing ? 'Importing…' : `Import ${toImport.length} task${toImport.length === 1 ? '' : 's'}`}
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,26 @@
+import React, { useEffect } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { ToastAction } from '@/components/ui/toast';
+import { applyUpdate, onUpdateAvailable } from '@/services/serviceWorker';
+
+/**
+ * Offers to reload when a new build has been installed in the background
+ */
+export const UpdatePrompt: React.FC = () => {
+  const { toast } = useToast();
+
+  useEffect(() => onUpdateAvailable(() => {
+    toast({
+      title: 'Update available',
+      description: 'A new version of DoneZit is ready.',
+      duration: Infinity,
+      action: (
+        <ToastAction altText="Reload to update" onClick={applyUpdate}>
+          Reload
+        </ToastAction>
+      ),
+    });
+  }), [toast]);
+
+  return null;
+};
@@ -0,0 +1,40 @@
+/**
+ * Tasks Context
+ *
+ * Holds the one useTasks instance for the signed-in user, shared by every
+ * page, so there is a single subscription, outbox and undo history.
+ * Reminders are scheduled here as well, so they fire on whichever page is
+ * open.
+ */
+
+import React, { createContext, useContext, ReactNode } from 'react';
+import { useAuthContext } from '@/contexts/AuthContext';
+import { useTasks, UseTasksReturn } from '@/hooks/useTasks';
+import { useReminders } from '@/hooks/useReminders';
+
+const TasksContext = createContext<UseTasksReturn | undefined>(undefined);
+
+interface TasksProviderProps {
+  children: ReactNode;
+}
+
+export const TasksProvider: React.FC<TasksProviderProps> = ({ children }) => {
+  const { user } = useAuthContext();
+  const tasks = useTasks(user?.uid || null);
+
+  useReminders(tasks.tasks, { updateTask: tasks.updateTask, toggleTaskStatus: tasks.toggleTaskStatus });
+
+  return (
+    <TasksContext.Provider value={tasks}>
+      {children}
+    </TasksContext.Provider>
+  );
+};
+
+export const useTasksContext = (): UseTasksReturn => {
+  const context = useContext(TasksContext);
+  if (context === undefined) {
+    throw new Error('useTasksContext must be used within a TasksProvider');
+  }
+  return context;
+};
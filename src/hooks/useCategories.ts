@@ -0,0 +1,128 @@
+/**
+ * Categories Hook
+ *
+ * Manages the user's own categories (name + color), stored through the
+ * configured CategoryRepository. Renaming, recoloring and deleting a
+ * category reassigns the affected tasks through the callback supplied by
+ * useTasks, so task badges never point at a category that is gone.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { Category } from '@/types';
+import { categoryRepository as defaultRepository, CategoryRepository } from '@/services/categoryRepository';
+import { DEFAULT_CATEGORIES, pickCategoryColor } from '@/lib/categories';
+
+interface UseCategoriesReturn {
+  categories: Category[];
+  addCategory: (name: string, color?: string) => Promise<Category>;
+  renameCategory: (id: string, name: string) => Promise<void>;
+  recolorCategory: (id: string, color: string) => Promise<void>;
+  deleteCategory: (id: string, reassignTo: Category | null) => Promise<void>;
+  getCategoryColor: (name?: string) => string | undefined;
+}
+
+type ReassignTasks = (from: string, to: Category | null) => void;
+
+const seededKey = (userId: string) => `categories_seeded_${userId}`;
+
+export const useCategories = (
+  userId: string | null,
+  reassignTasks: ReassignTasks,
+  repository: CategoryRepository = defaultRepository
+): UseCategoriesReturn => {
+  const [categories, setCategories] = useState<Category[]>([]);
+
+  // Subscribe to the user's categories, seeding the defaults the first time
+  useEffect(() => {
+    if (!userId) {
+      setCategories([]);
+      return;
+    }
+
+    try {
+      return repository.subscribe(userId, list => {
+        setCategories(list);
+
+        if (list.length === 0 && !localStorage.getItem(seededKey(userId))) {
+          localStorage.setItem(seededKey(userId), '1');
+          repository.seed(userId, DEFAULT_CATEGORIES).catch(e => {
+            // Seeding is safe to repeat, so try again next time
+            localStorage.removeItem(seededKey(userId));
+            console.error('Failed to seed categories:', e);
+          });
+        }
+      });
+    } catch (e) {
+      console.error('Failed to subscribe to categories:', e);
+    }
+  }, [userId, repository]);
+
+  const findByName = useCallback((name: string, exceptId?: string) =>
+    categories.find(c => c.id !== exceptId && c.name.toLowerCase() === name.trim().toLowerCase()),
+  [categories]);
+
+  /**
+   * Create a category; names are unique ignoring case
+   */
+  const addCategory = useCallback(async (name: string, color?: string): Promise<Category> => {
+    if (!userId) throw new Error('Not authenticated');
+    const trimmed = name.trim();
+    if (!trimmed) throw new Error('Category name is required');
+    if (findByName(trimmed)) throw new Error(`A category named "${trimmed}" already exists`);
+
+    const data = { name: trimmed, color: color ?? pickCategoryColor(categories) };
+    const id = await repository.create(userId, data);
+    return { id, ...data };
+  }, [userId, categories, findByName, repository]);
+
+  /**
+   * Rename a category and move its tasks to the new name
+   */
+  const renameCategory = useCallback(async (id: string, name: string) => {
+    if (!userId) return;
+    const existing = categories.find(c => c.id === id);
+    const trimmed = name.trim();
+    if (!existing || !trimmed || trimmed === existing.name) return;
+    if (findByName(trimmed, id)) throw new Error(`A category named "${trimmed}" already exists`);
+
+    await repository.update(userId, id, { name: trimmed });
+    reassignTasks(existing.name, { ...existing, name: trimmed });
+  }, [userId, categories, findByName, repository, reassignTasks]);
+
+  /**
+   * Change a category color and update its tasks' badges
+   */
+  const recolorCategory = useCallback(async (id: string, color: string) => {
+    if (!userId) return;
+    const existing = categories.find(c => c.id === id);
+    if (!existing || existing.color === color) return;
+
+    await repository.update(userId, id, { color });
+    reassignTasks(existing.name, { ...existing, color });
+  }, [userId, categories, repository, reassignTasks]);
+
+  /**
+   * Delete a category, moving its tasks to another category or to none
+   */
+  const deleteCategory = useCallback(async (id: string, reassignTo: Category | null) => {
+    if (!userId) return;
+    const existing = categories.find(c => c.id === id);
+    if (!existing) return;
+
+    await repository.remove(userId, id);
+    reassignTasks(existing.name, reassignTo);
+  }, [userId, categories, repository, reassignTasks]);
+
+  const getCategoryColor = useCallback((name?: string) =>
+    name ? categories.find(c => c.name === name)?.color : undefined,
+  [categories]);
+
+  return {
+    categories,
+    addCategory,
+    renameCategory,
+    recolorCategory,
+    deleteCategory,
+    getCategoryColor
+  };
+};
@@ -0,0 +1,86 @@
+/**
+ * Preferences Hook
+ *
+ * Per-user preferences (saved views, sort order and the like), stored through the
+ * configured PreferencesRepository. Changes are applied locally right away
+ * and written in the background.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { SavedView, UserPreferences } from '@/types';
+import { preferencesRepository as defaultRepository, PreferencesRepository } from '@/services/preferencesRepository';
+import { generateId } from '@/lib/utils';
+import { DEFAULT_SORT } from '@/lib/sort';
+import { DEFAULT_TRASH_RETENTION_DAYS } from '@/lib/trash';
+import { DEFAULT_ARCHIVE_AFTER_DAYS } from '@/lib/archive';
+
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  savedViews: [],
+  sort: DEFAULT_SORT,
+  layout: 'list',
+  board: { groupBy: 'status', collapsed: [] },
+  trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS,
+  archiveAfterDays: DEFAULT_ARCHIVE_AFTER_DAYS
+};
+
+interface UsePreferencesReturn {
+  preferences: UserPreferences;
+  updatePreferences: (changes: Partial<UserPreferences>) => void;
+  saveView: (name: string, query: string) => SavedView;
+  deleteView: (id: string) => void;
+}
+
+export const usePreferences = (
+  userId: string | null,
+  repository: PreferencesRepository = defaultRepository
+): UsePreferencesReturn => {
+  const [preferences, setPreferences] = useState<UserPreferences>(DEFAULT_PREFERENCES);
+
+  useEffect(() => {
+    if (!userId) {
+      setPreferences(DEFAULT_PREFERENCES);
+      return;
+    }
+
+    try {
+      return repository.subscribe(userId, stored => {
+        setPreferences({ ...DEFAULT_PREFERENCES, ...stored });
+      });
+    } catch (e) {
+      console.error('Failed to subscribe to preferences:', e);
+    }
+  }, [userId, repository]);
+
+  const updatePreferences = useCallback((changes: Partial<UserPreferences>) => {
+    setPreferences(prev => ({ ...prev, ...changes }));
+    if (!userId) return;
+    repository.update(userId, changes).catch(e => console.error('Failed to save preferences:', e));
+  }, [userId, repository]);
+
+  /**
+   * Save a filter query under a name; an existing view with the same
+   * name (ignoring case) is replaced
+   */
+  const saveView = useCallback((name: string, query: string): SavedView => {
+    const trimmed = name.trim();
+    const existing = preferences.savedViews.find(v => v.name.toLowerCase() === trimmed.toLowerCase());
+    const view: SavedView = { id: existing?.id ?? generateId(), name: trimmed, query: query.trim() };
+    updatePreferences({
+      savedViews: existing
+        ? preferences.savedViews.map(v => (v.id === existing.id ? view : v))
+        : [...preferences.savedViews, view]
+    });
+    return view;
+  }, [preferences.savedViews, updatePreferences]);
+
+  const deleteView = useCallback((id: string) => {
+    updatePreferences({ savedViews: preferences.savedViews.filter(v => v.id !== id) });
+  }, [preferences.savedViews, updatePreferences]);
+
+  return {
+    preferences,
+    updatePreferences,
+    saveView,
+    deleteView
+  };
+};
@@ -0,0 +1,101 @@
+/**
+ * Reminders Hook
+ *
+ * Shows task reminders while the app is open and keeps the service
+ * worker's copy of the schedule current for when it is not. Handles the
+ * "Snooze" and "Mark done" notification actions by updating the task.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Task, TaskReminder } from '@/types';
+import { MutationOptions } from '@/hooks/useTasks';
+import { scheduledReminders, SNOOZE_MINUTES } from '@/lib/reminders';
+import {
+  onReminderAction,
+  showReminder,
+  syncReminderSchedule,
+  ReminderActionMessage
+} from '@/services/notifications';
+
+// Wake up at least this often, since long timers drift (e.g. across sleep)
+const MAX_WAIT_MS = 60 * 60 * 1000;
+
+interface ReminderHandlers {
+  updateTask: (id: string, updates: Partial<Task>, options?: MutationOptions) => void;
+  toggleTaskStatus: (id: string) => void;
+}
+
+const updateReminders = (task: Task, reminderIds: string[], changes: Partial<TaskReminder>): TaskReminder[] =>
+  (task.reminders ?? []).map(r => (reminderIds.includes(r.id) ? { ...r, ...changes } : r));
+
+export const useReminders = (tasks: Task[], { updateTask, toggleTaskStatus }: ReminderHandlers): void => {
+  // Bumped by the timer to re-check what is due
+  const [tick, setTick] = useState(0);
+
+  // Actions arrive asynchronously, so read the latest tasks from a ref
+  const tasksRef = useRef(tasks);
+  tasksRef.current = tasks;
+  const handlersRef = useRef({ updateTask, toggleTaskStatus });
+  handlersRef.current = { updateTask, toggleTaskStatus };
+
+  // Show what is due, hand the rest to the service worker, and wait for the next one
+  useEffect(() => {
+    const now = new Date();
+    const schedule = scheduledReminders(tasks, now);
+    const due = schedule.filter(entry => entry.at <= now);
+    const upcoming = schedule.filter(entry => entry.at > now);
+
+    const firedByTask = new Map<Task, string[]>();
+    due.forEach(({ task, reminder }) => {
+      showReminder(task, reminder).catch(e => console.error('Failed to show reminder:', e));
+      firedByTask.set(task, [...(firedByTask.get(task) ?? []), reminder.id]);
+    });
+    firedByTask.forEach((reminderIds, task) => {
+      // Bookkeeping only, so it stays out of the undo history
+      updateTask(
+        task.id,
+        { reminders: updateReminders(task, reminderIds, { firedAt: now, snoozedUntil: undefined }) },
+        { undoable: false }
+      );
+    });
+
+    syncReminderSchedule(upcoming).catch(e => console.warn('Failed to schedule reminders:', e));
+
+    if (upcoming.length === 0) return;
+    const wait = Math.min(upcoming[0].at.getTime() - now.getTime(), MAX_WAIT_MS);
+    const timer = setTimeout(() => setTick(t => t + 1), wait);
+    return () => clearTimeout(timer);
+  }, [tasks, tick, updateTask]);
+
+  // Notification actions wait here until their task has loaded
+  const pendingActionsRef = useRef<ReminderActionMessage[]>([]);
+
+  const processActions = useCallback(() => {
+    pendingActionsRef.current = pendingActionsRef.current.filter(message => {
+      const task = tasksRef.current.find(t => t.id === message.taskId);
+      if (!task) return true;
+
+      if (message.action === 'snooze') {
+        handlersRef.current.updateTask(task.id, {
+          reminders: updateReminders(task, [message.reminderId], {
+            snoozedUntil: new Date(message.at + SNOOZE_MINUTES * 60 * 1000),
+            firedAt: undefined
+          })
+        });
+      } else if (message.action === 'done' && task.status === 'pending') {
+        handlersRef.current.toggleTaskStatus(task.id);
+      }
+      return false;
+    });
+  }, []);
+
+  // Notification actions, including ones queued while the app was closed
+  useEffect(() => onReminderAction(message => {
+    pendingActionsRef.current.push(message);
+    processActions();
+  }), [processActions]);
+
+  useEffect(() => {
+    if (pendingActionsRef.current.length > 0) processActions();
+  }, [tasks, processActions]);
+};
@@ -2,102 +2,171 @@
  * Tasks Hook
  * 
  * This hook manages all task-related state and operations.
- * Tasks are stored in localStorage for persistence.
+ * Tasks are read and written through the configured TaskRepository
+ * (Firestore, IndexedDB or in-memory), selected at startup.
+ * Mutations made while offline go to a persisted outbox and are replayed
+ * in order when the network comes back.
  * 
  * Features:
  * - CRUD operations for tasks
- * - Advanced sorting by priority, deadline, and creation date
+ * - Recurring tasks that spawn their next occurrence on completion
+ * - Checklist items inside a task
+ * - Offline outbox with id remapping and per-field conflict resolution
+ * - Selectable sort strategies, remembered in the user's preferences
+ * - Manual ordering with fractional sort keys
  * - Filtering by status, priority, and due date
+ * - Full-text search and filter queries composed with the filters
+ * - Saved views (named filter queries) in place of a built-in filter
+ * - Bulk import with batched writes
+ * - Undo/redo of adds, edits, deletes and status toggles, restoring the
+ *   exact earlier task (same id and creation date)
+ * - Trash: deleting only marks a task, which can be restored until it is
+ *   deleted for good or purged after the retention period
+ * - Archive: completed tasks are archived after a configurable number of
+ *   days and are then only loaded on demand
+ * - History: every write stamps `updatedAt`, and edits log the changed
+ *   fields on the task itself (see lib/taskHistory)
  */
 
-import { useState, useEffect, useCallback, useMemo } from 'react';
-import { Task, TaskFormData, Priority, FilterType, TaskStatus } from '@/types';
-import { db } from '@/services/firebase';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Task, TaskFormData, ImportedTask, FilterType, TaskConflict, TaskStats, Category, SavedView, SortPreference, UserPreferences } from '@/types';
+import { taskRepository as defaultRepository, TaskRepository } from '@/services/taskRepository';
 import {
-  collection,
-  query,
-  orderBy,
-  onSnapshot,
-  addDoc,
-  doc as firestoreDoc,
-  setDoc,
-  updateDoc,
-  deleteDoc,
-  serverTimestamp,
-  Timestamp
-} from 'firebase/firestore';
-
-interface UseTasksReturn {
+  OutboxState,
+  PendingMutation,
+  EMPTY_OUTBOX,
+  loadOutbox,
+  saveOutbox,
+  applyPendingMutations,
+  replayOutbox,
+  createLocalId,
+  isLocalId
+} from '@/services/outbox';
+import { useNetworkStatus } from '@/hooks/useNetworkStatus';
+import { usePreferences } from '@/hooks/usePreferences';
+import { getNextOccurrence, advanceRule } from '@/lib/recurrence';
+import { checklistProgress } from '@/lib/checklist';
+import { UNCATEGORIZED } from '@/lib/categories';
+import { parseQuery } from '@/lib/query';
+import { sortTasks } from '@/lib/sort';
+import { reorderKeys } from '@/lib/sortKey';
+import { isTrashed, tasksToPurge } from '@/lib/trash';
+import { isArchived, tasksToArchive } from '@/lib/archive';
+import { isTaskOverdue } from '@/lib/deadlines';
+import { withChanges } from '@/lib/taskHistory';
+import { generateId } from '@/lib/utils';
+
+// A task as it was before a change; null when it did not exist yet
+interface HistoryChange {
+  taskId: string;
+  before: Task | null;
+}
+
+interface HistoryEntry {
+  // What the change did, e.g. "Delete task"
+  label: string;
+  changes: HistoryChange[];
+}
+
+interface History {
+  undo: HistoryEntry[];
+  redo: HistoryEntry[];
+}
+
+const EMPTY_HISTORY: History = { undo: [], redo: [] };
+
+// Steps kept on the undo stack
+const HISTORY_LIMIT = 50;
+
+export interface MutationOptions {
+  // Leave the change out of the undo history (e.g. bookkeeping fields)
+  undoable?: boolean;
+}
+
+export interface UseTasksReturn {
+  // Tasks outside the trash and the archive
   tasks: Task[];
+  // Tasks in the trash, most recently deleted first
+  trashedTasks: Task[];
   filteredTasks: Task[];
   filter: FilterType;
-  categoryFilter: string | null;
+  categoryFilter: string[];
+  categoryCounts: Record<string, number>;
+  searchQuery: string;
+  // Free-text part of the search query, for highlighting
+  searchText: string;
+  queryErrors: string[];
+  activeView: SavedView | null;
+  setActiveView: (view: SavedView | null) => void;
+  setSearchQuery: (query: string) => void;
+  sort: SortPreference;
+  setSort: (sort: SortPreference) => void;
+  // The preferences this hook reads, shared so callers need no second subscription
+  preferences: UserPreferences;
+  updatePreferences: (changes: Partial<UserPreferences>) => void;
+  saveView: (name: string, query: string) => SavedView;
+  deleteView: (id: string) => void;
   setFilter: (filter: FilterType) => void;
-  setCategoryFilter: (category: string | null) => void;
+  setCategoryFilter: (categories: string[]) => void;
+  toggleCategoryFilter: (category: string) => void;
   addTask: (taskData: TaskFormData) => Promise<void>;
-  updateTask: (id: string, taskData: Partial<Task>) => void;
+  // Resolves with the number of tasks written or queued
+  importTasks: (tasks: ImportedTask[]) => Promise<number>;
+  updateTask: (id: string, taskData: Partial<Task>, options?: MutationOptions) => void;
+  // Moves the task to the trash
   deleteTask: (id: string) => void;
+  restoreTask: (id: string) => void;
+  // Deletes a trashed task for good
+  purgeTask: (id: string) => void;
+  emptyTrash: () => void;
+  archiveTask: (id: string) => void;
+  unarchiveTask: (id: string) => void;
+  // Archive every completed task now; returns the tasks as archived
+  archiveCompleted: () => Task[];
+  loadArchivedTasks: () => Promise<Task[]>;
+  // A single task, including trashed and archived ones; null when it does not exist
+  getTask: (id: string) => Promise<Task | null>;
   toggleTaskStatus: (id: string) => void;
-  getTaskStats: () => { total: number; completed: number; pending: number; overdue: number };
+  toggleChecklistItem: (taskId: string, itemId: string) => void;
+  moveTask: (taskId: string, orderedIds: string[]) => void;
+  reassignCategory: (from: string, to: Category | null) => void;
+  getTaskStats: () => TaskStats;
+  // Undo or redo the latest change; resolve with its label, or null when there is none
+  undo: () => string | null;
+  redo: () => string | null;
+  canUndo: boolean;
+  canRedo: boolean;
+  pendingCount: number;
+  syncing: boolean;
+  conflicts: TaskConflict[];
+  dismissConflict: (id: string) => void;
 }
 
-// Priority weight for sorting (higher = more important)
-const PRIORITY_WEIGHT: Record<Priority, number> = {
-  high: 3,
-  medium: 2,
-  low: 1
-};
-
 /**
- * Advanced Sorting Algorithm
- * 
- * Sorts tasks using a multi-factor approach:
- * 1. Completed tasks go to the bottom
- * 2. Priority (High → Medium → Low)
- * 3. Within same priority, sort by nearest deadline
- * 4. If deadlines are equal, sort by creation time (oldest first)
+ * Category bucket a task is counted and filtered under
  */
-const sortTasks = (tasks: Task[]): Task[] => {
-  return [...tasks].sort((a, b) => {
-    // Completed tasks always go to the bottom
-    if (a.status !== b.status) {
-      return a.status === 'completed' ? 1 : -1;
-    }
-
-    // For pending tasks, sort by priority first
-    if (a.status === 'pending') {
-      const priorityDiff = PRIORITY_WEIGHT[b.priority] - PRIORITY_WEIGHT[a.priority];
-      if (priorityDiff !== 0) return priorityDiff;
-
-      // Same priority: sort by deadline (nearest first)
-      const deadlineA = new Date(a.deadline).getTime();
-      const deadlineB = new Date(b.deadline).getTime();
-      const deadlineDiff = deadlineA - deadlineB;
-      if (deadlineDiff !== 0) return deadlineDiff;
-
-      // Same deadline: sort by creation time (oldest first)
-      return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
-    }
-
-    // For completed tasks, sort by most recently completed (newest first)
-    return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
-  });
-};
+const categoryKey = (task: Task) => task.category || UNCATEGORIZED;
 
 /**
- * Filter tasks based on filter type
+ * Filter tasks based on filter type, selected categories (any of the
+ * selected categories matches) and an optional query predicate
  */
-const filterTasks = (tasks: Task[], filter: FilterType, categoryFilter: string | null): Task[] => {
+const filterTasks = (
+  tasks: Task[],
+  filter: FilterType,
+  categoryFilter: string[],
+  predicate?: (task: Task, now: Date) => boolean
+): Task[] => {
   const now = new Date();
   const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
   const tomorrow = new Date(today);
   tomorrow.setDate(tomorrow.getDate() + 1);
 
-  let filtered = tasks;
+  let filtered = predicate ? tasks.filter(task => predicate(task, now)) : tasks;
 
   // Apply category filter first
-  if (categoryFilter) {
-    filtered = filtered.filter(task => task.category === categoryFilter);
+  if (categoryFilter.length > 0) {
+    filtered = filtered.filter(task => categoryFilter.includes(categoryKey(task)));
   }
 
   // Then apply status/type filter
@@ -116,118 +185,185 @@ const filterTasks = (tasks: Task[], filter: FilterType, categoryFilter: string |
                deadline < tomorrow;
       });
     case 'overdue':
-      return filtered.filter(task => {
-        const deadline = new Date(task.deadline);
-        return task.status === 'pending' && deadline < today;
-      });
+      return filtered.filter(task => isTaskOverdue(task, now));
     case 'all':
     default:
       return filtered;
   }
 };
 
-export const useTasks = (userId: string | null): UseTasksReturn => {
-  const [tasks, setTasks] = useState<Task[]>([]);
-  const [filter, setFilter] = useState<FilterType>('all');
-  const [categoryFilter, setCategoryFilter] = useState<string | null>(null);
-
-  // Subscribe to Firestore realtime tasks for the user (fallback to localStorage)
+export const useTasks = (
+  userId: string | null,
+  repository: TaskRepository = defaultRepository
+): UseTasksReturn => {
+  const { online } = useNetworkStatus();
+  const [serverTasks, setServerTasks] = useState<Task[]>([]);
+  const [outbox, setOutbox] = useState<OutboxState>(EMPTY_OUTBOX);
+  const [syncing, setSyncing] = useState(false);
+  const [filter, setFilterState] = useState<FilterType>('all');
+  const [activeView, setActiveViewState] = useState<SavedView | null>(null);
+  const [categoryFilter, setCategoryFilter] = useState<string[]>([]);
+  const [searchQuery, setSearchQuery] = useState('');
+  const { preferences, updatePreferences, saveView, deleteView } = usePreferences(userId);
+  const sort = preferences.sort;
+
+  const [history, setHistory] = useState<History>(EMPTY_HISTORY);
+
+  // The outbox is also read outside of renders (during replay), so mirror it in a ref
+  const outboxRef = useRef<OutboxState>(EMPTY_OUTBOX);
+  const replayingRef = useRef(false);
+  // Undo can be triggered from a toast rendered with an older closure
+  const historyRef = useRef<History>(EMPTY_HISTORY);
+  // Automatic archive and purge writes already sent, so they are not sent
+  // again while the task list still shows the old state
+  const autoWritesRef = useRef(new Set<string>());
+
+  // Subscribe to the repository's realtime task list for the user
   useEffect(() => {
     if (!userId) {
-      setTasks([]);
+      setServerTasks([]);
       return;
     }
 
-    // Subscribe to Firestore collection for this user's tasks
     try {
-      const tasksCol = collection(db, 'users', userId, 'tasks');
-      const q = query(tasksCol, orderBy('createdAt', 'asc'));
-      const unsub = onSnapshot(q, snapshot => {
-        const docs: Task[] = snapshot.docs.map(d => {
-          const data: any = d.data();
-          return {
-            id: d.id,
-            userId,
-            title: data.title,
-            description: data.description,
-            createdAt: data.createdAt && data.createdAt.toDate ? data.createdAt.toDate() : new Date(data.createdAt),
-            deadline: data.deadline && data.deadline.toDate ? data.deadline.toDate() : new Date(data.deadline),
-            priority: data.priority,
-            status: data.status as TaskStatus,
-            category: data.category,
-            categoryColor: data.categoryColor
-          };
-        });
-
-        setTasks(sortTasks(docs));
-
-        // also persist a local copy for offline fallback
-        try {
-          localStorage.setItem(`tasks_${userId}`, JSON.stringify(docs));
-        } catch (e) {
-          // ignore localStorage errors
-        }
-      }, err => {
-        console.error('Tasks realtime listener error:', err);
-        // If permissions prevent reading from Firestore, fall back to cached localStorage copy
-        try {
-          const isPermissionError = (err && (err.code === 'permission-denied' || /permission/i.test(String(err.message || ''))));
-          if (isPermissionError) {
-            console.warn('Firestore permission denied — loading tasks from localStorage fallback.');
-            const storageKey = `tasks_${userId}`;
-            const storedTasks = localStorage.getItem(storageKey);
-            if (storedTasks) {
-              try {
-                const parsed = JSON.parse(storedTasks);
-                const tasksWithDates = parsed.map((task: any) => ({
-                  ...task,
-                  createdAt: new Date(task.createdAt),
-                  deadline: new Date(task.deadline)
-                }));
-                setTasks(sortTasks(tasksWithDates));
-              } catch (e) {
-                console.error('Failed to parse stored tasks fallback:', e);
-                setTasks([]);
-              }
-            } else {
-              setTasks([]);
-            }
-          }
-        } catch (e) {
-          console.error('Error handling realtime listener failure:', e);
-        }
-      });
-
-      return () => unsub();
+      return repository.subscribe(userId, setServerTasks);
     } catch (e) {
       console.error('Failed to subscribe to tasks:', e);
-      // fallback: try to load from localStorage
-      const storageKey = `tasks_${userId}`;
-      const storedTasks = localStorage.getItem(storageKey);
-      if (storedTasks) {
-        try {
-          const parsed = JSON.parse(storedTasks);
-          const tasksWithDates = parsed.map((task: any) => ({
-            ...task,
-            createdAt: new Date(task.createdAt),
-            deadline: new Date(task.deadline)
-          }));
-          setTasks(tasksWithDates);
-        } catch (err) {
-          console.error('Failed to parse stored tasks:', err);
-          setTasks([]);
-        }
-      }
     }
+  }, [userId, repository]);
+
+  // Load the persisted outbox for the user; history belongs to the previous user
+  useEffect(() => {
+    const stored = userId ? loadOutbox(userId) : EMPTY_OUTBOX;
+    outboxRef.current = stored;
+    setOutbox(stored);
+    historyRef.current = EMPTY_HISTORY;
+    setHistory(EMPTY_HISTORY);
+    autoWritesRef.current = new Set();
   }, [userId]);
 
-  // Save tasks to localStorage whenever they change
+  const writeOutbox = useCallback((next: OutboxState) => {
+    outboxRef.current = next;
+    setOutbox(next);
+    if (userId) saveOutbox(userId, next);
+  }, [userId]);
+
+  // Undo entries for tasks created offline must follow them to their real id
+  const remapHistory = useCallback((localId: string, serverId: string) => {
+    const remapEntry = (entry: HistoryEntry): HistoryEntry => ({
+      ...entry,
+      changes: entry.changes.map(({ taskId, before }) => ({
+        taskId: taskId === localId ? serverId : taskId,
+        before: before?.id === localId ? { ...before, id: serverId } : before
+      }))
+    });
+    const next = { undo: historyRef.current.undo.map(remapEntry), redo: historyRef.current.redo.map(remapEntry) };
+    historyRef.current = next;
+    setHistory(next);
+  }, []);
+
+  // Replay queued mutations whenever we are online and something is waiting
   useEffect(() => {
-    if (userId && tasks.length >= 0) {
-      const storageKey = `tasks_${userId}`;
-      localStorage.setItem(storageKey, JSON.stringify(tasks));
+    if (!userId || !online || outbox.mutations.length === 0 || replayingRef.current) return;
+
+    replayingRef.current = true;
+    setSyncing(true);
+    replayOutbox(userId, repository, {
+      read: () => outboxRef.current,
+      write: writeOutbox
+    }, remapHistory).finally(() => {
+      replayingRef.current = false;
+      setSyncing(false);
+    });
+  }, [userId, online, outbox.mutations.length, repository, writeOutbox, remapHistory]);
+
+  // Server state with not-yet-synced local edits applied on top, trash included
+  const allTasks = useMemo(
+    () => sortTasks(applyPendingMutations(serverTasks, outbox.mutations, userId ?? '')),
+    [serverTasks, outbox.mutations, userId]
+  );
+  const tasksRef = useRef(allTasks);
+  tasksRef.current = allTasks;
+
+  // Archived tasks only show up here until the server copy catches up
+  const tasks = useMemo(() => allTasks.filter(task => !isTrashed(task) && !isArchived(task)), [allTasks]);
+  const trashedTasks = useMemo(
+    () => allTasks
+      .filter(task => isTrashed(task) && !isArchived(task))
+      .sort((a, b) => new Date(b.deletedAt!).getTime() - new Date(a.deletedAt!).getTime()),
+    [allTasks]
+  );
+
+  const writeHistory = useCallback((next: History) => {
+    historyRef.current = next;
+    setHistory(next);
+  }, []);
+
+  /**
+   * Push a change onto the undo stack; a new change clears the redo stack
+   */
+  const record = useCallback((label: string, changes: HistoryChange[]): HistoryEntry => {
+    const entry: HistoryEntry = { label, changes };
+    writeHistory({ undo: [...historyRef.current.undo, entry].slice(-HISTORY_LIMIT), redo: [] });
+    return entry;
+  }, [writeHistory]);
+
+  /**
+   * Run a mutation against the repository, or queue it in the outbox when
+   * offline, when earlier mutations are still waiting, or when it fails.
+   */
+  const runOrQueue = useCallback(async (mutation: PendingMutation, run: () => Promise<unknown>) => {
+    const canRunNow = online && outboxRef.current.mutations.length === 0 && !isLocalId(mutation.taskId);
+    if (canRunNow) {
+      try {
+        await run();
+        return;
+      } catch (e) {
+        console.error(`Failed to ${mutation.type} task, queued for retry:`, e);
+      }
     }
-  }, [tasks, userId]);
+    writeOutbox({
+      ...outboxRef.current,
+      mutations: [...outboxRef.current.mutations, mutation]
+    });
+  }, [online, writeOutbox]);
+
+  /**
+   * Create a task and resolve with its id (a local id while it is queued)
+   */
+  const createTask = useCallback(async (taskData: TaskFormData): Promise<string> => {
+    let id = createLocalId();
+    const mutation: PendingMutation = { type: 'create', taskId: id, data: taskData, queuedAt: Date.now() };
+    // subscription (or the outbox overlay) will update local state
+    await runOrQueue(mutation, async () => {
+      id = await repository.create(userId!, taskData);
+    });
+    return id;
+  }, [userId, repository, runOrQueue]);
+
+  const writeUpdate = useCallback((id: string, changes: Partial<Task>) => {
+    const updates: Partial<Task> = { ...changes, updatedAt: new Date() };
+    const existing = tasksRef.current.find(t => t.id === id);
+    // Remember what the fields looked like before this edit, for conflict detection
+    const base: Partial<Task> = {};
+    (Object.keys(updates) as (keyof Task)[]).forEach(field => {
+      (base as Record<string, unknown>)[field] = existing?.[field];
+    });
+
+    const mutation: PendingMutation = { type: 'update', taskId: id, updates, base, queuedAt: Date.now() };
+    runOrQueue(mutation, () => repository.update(userId!, id, updates));
+  }, [userId, repository, runOrQueue]);
+
+  const writeRemove = useCallback((id: string) => {
+    const mutation: PendingMutation = { type: 'remove', taskId: id, queuedAt: Date.now() };
+    runOrQueue(mutation, () => repository.remove(userId!, id));
+  }, [userId, repository, runOrQueue]);
+
+  const writePut = useCallback((task: Task) => {
+    const stamped: Task = { ...task, updatedAt: new Date() };
+    const mutation: PendingMutation = { type: 'put', taskId: task.id, task: stamped, queuedAt: Date.now() };
+    runOrQueue(mutation, () => repository.put(userId!, stamped));
+  }, [userId, repository, runOrQueue]);
 
   /**
    * Add a new task
@@ -235,139 +371,402 @@ export const useTasks = (userId: string | null): UseTasksReturn => {
   const addTask = useCallback(async (taskData: TaskFormData) => {
     if (!userId) return;
 
-    try {
-      const tasksCol = collection(db, 'users', userId, 'tasks');
-      await addDoc(tasksCol, {
-        title: taskData.title,
-        description: taskData.description,
-        createdAt: serverTimestamp(),
-        deadline: Timestamp.fromDate(new Date(taskData.deadline)),
-        priority: taskData.priority,
-        status: 'pending',
-        category: taskData.category || null
-      });
-      // onSnapshot listener will update local state
-    } catch (e) {
-      console.error('Failed to add task to Firestore:', e);
-      // fallback: local-only add
-      const fallbackId = `local-${Date.now()}`;
-      const newTask: Task = {
-        id: fallbackId,
-        userId,
-        title: taskData.title,
-        description: taskData.description,
-        createdAt: new Date(),
-        deadline: taskData.deadline,
-        priority: taskData.priority,
-        status: 'pending',
-        category: taskData.category
-      };
-      setTasks(prev => sortTasks([...prev, newTask]));
+    const id = await createTask(taskData);
+    record('Add task', [{ taskId: id, before: null }]);
+  }, [userId, createTask, record]);
+
+  /**
+   * Create many tasks at once, e.g. from an import file, as one undo step.
+   * Online this is a batched write; otherwise each task is queued in the
+   * outbox as a create.
+   */
+  const importTasks = useCallback(async (imported: ImportedTask[]) => {
+    if (!userId || imported.length === 0) return 0;
+
+    let ids: string[];
+    if (online && outboxRef.current.mutations.length === 0) {
+      ids = await repository.createMany(userId, imported);
+    } else {
+      const queuedAt = Date.now();
+      const mutations = imported.map((data): PendingMutation => ({ type: 'create', taskId: createLocalId(), data, queuedAt }));
+      writeOutbox({ ...outboxRef.current, mutations: [...outboxRef.current.mutations, ...mutations] });
+      ids = mutations.map(mutation => mutation.taskId);
     }
-  }, [userId]);
+    record('Import tasks', ids.map(taskId => ({ taskId, before: null })));
+    return ids.length;
+  }, [userId, online, repository, writeOutbox, record]);
 
   /**
    * Update an existing task
    */
-  const updateTask = useCallback((id: string, updates: Partial<Task>) => {
+  const updateTask = useCallback((id: string, updates: Partial<Task>, options?: MutationOptions) => {
     if (!userId) return;
 
-    (async () => {
-      try {
-        const taskRef = firestoreDoc(db, 'users', userId, 'tasks', id);
-        const payload: any = { ...updates };
-        if (updates.deadline) payload.deadline = Timestamp.fromDate(new Date(updates.deadline as any));
-        await updateDoc(taskRef, payload);
-        // onSnapshot will update local state
-      } catch (e) {
-        console.error('Failed to update task in Firestore:', e);
-        // fallback to local update
-        setTasks(prev => {
-          const updated = prev.map(task => task.id === id ? { ...task, ...updates } : task);
-          return sortTasks(updated as Task[]);
-        });
-      }
-    })();
-  }, [userId]);
+    const existing = tasksRef.current.find(t => t.id === id);
+    if (existing && options?.undoable !== false) record('Edit task', [{ taskId: id, before: existing }]);
+    writeUpdate(id, withChanges(existing, updates));
+  }, [userId, record, writeUpdate]);
 
   /**
-   * Delete a task
+   * Move a task to the trash. Archived tasks (not loaded here) leave the
+   * archive, so the trash can list them.
    */
   const deleteTask = useCallback((id: string) => {
     if (!userId) return;
 
-    (async () => {
-      try {
-        const taskRef = firestoreDoc(db, 'users', userId, 'tasks', id);
-        await deleteDoc(taskRef);
-      } catch (e) {
-        console.error('Failed to delete task from Firestore:', e);
-        // fallback local delete
-        setTasks(prev => prev.filter(task => task.id !== id));
-      }
-    })();
-  }, [userId]);
+    const existing = tasksRef.current.find(t => t.id === id);
+    if (existing) record('Delete task', [{ taskId: id, before: existing }]);
+    writeUpdate(id, !existing || isArchived(existing)
+      ? { deletedAt: new Date(), archivedAt: undefined }
+      : { deletedAt: new Date() });
+  }, [userId, record, writeUpdate]);
 
   /**
-   * Toggle task status between pending and completed
+   * Take a task back out of the trash
    */
-  const toggleTaskStatus = useCallback((id: string) => {
+  const restoreTask = useCallback((id: string) => {
+    const existing = tasksRef.current.find(t => t.id === id);
+    if (!userId || !existing) return;
+
+    record('Restore task', [{ taskId: id, before: existing }]);
+    writeUpdate(id, { deletedAt: undefined });
+  }, [userId, record, writeUpdate]);
+
+  /**
+   * Permanently delete a task from the trash; undo still brings it back
+   */
+  const purgeTask = useCallback((id: string) => {
+    const existing = tasksRef.current.find(t => t.id === id);
+    if (!userId || !existing) return;
+
+    record('Delete task permanently', [{ taskId: id, before: existing }]);
+    writeRemove(id);
+  }, [userId, record, writeRemove]);
+
+  const emptyTrash = useCallback(() => {
+    const trashed = tasksRef.current.filter(isTrashed);
+    if (!userId || trashed.length === 0) return;
+
+    record('Empty trash', trashed.map(task => ({ taskId: task.id, before: task })));
+    trashed.forEach(task => writeRemove(task.id));
+  }, [userId, record, writeRemove]);
+
+  /**
+   * Archive a task. Not undoable: the archived task leaves the loaded list,
+   * so there would be nothing to redo from.
+   */
+  const archiveTask = useCallback((id: string) => {
     if (!userId) return;
+    writeUpdate(id, { archivedAt: new Date() });
+  }, [userId, writeUpdate]);
 
-    const toggle = async () => {
-      try {
-        // find existing task in local state
-        const existing = tasks.find(t => t.id === id);
-        if (!existing) return;
-        const newStatus = existing.status === 'pending' ? 'completed' : 'pending';
-        const taskRef = firestoreDoc(db, 'users', userId, 'tasks', id);
-        await updateDoc(taskRef, { status: newStatus });
-      } catch (e) {
-        console.error('Failed to toggle task status in Firestore:', e);
-        setTasks(prev => {
-          const updated = prev.map(task => task.id === id ? { ...task, status: task.status === 'pending' ? 'completed' : 'pending' } : task);
-          return sortTasks(updated as Task[]);
-        });
+  const unarchiveTask = useCallback((id: string) => {
+    if (!userId) return;
+    writeUpdate(id, { archivedAt: undefined });
+  }, [userId, writeUpdate]);
+
+  const archiveCompleted = useCallback(() => {
+    if (!userId) return [];
+    const archivedAt = new Date();
+    const completed = tasks.filter(t => t.status === 'completed');
+    completed.forEach(task => writeUpdate(task.id, { archivedAt }));
+    return completed.map(task => ({ ...task, archivedAt }));
+  }, [userId, tasks, writeUpdate]);
+
+  const loadArchivedTasks = useCallback(async () => {
+    if (!userId) return [];
+    return repository.getArchived(userId);
+  }, [userId, repository]);
+
+  const getTask = useCallback(async (id: string) => {
+    if (!userId) return null;
+    const loaded = tasksRef.current.find(t => t.id === id);
+    if (loaded) return loaded;
+    // Tasks created offline only exist in the outbox
+    if (isLocalId(id)) return null;
+    return repository.get(userId, id);
+  }, [userId, repository]);
+
+  // Archive tasks completed longer ago than the user's setting
+  const archiveAfterDays = preferences.archiveAfterDays;
+  useEffect(() => {
+    if (!userId) return;
+    tasksToArchive(tasks, archiveAfterDays)
+      .filter(task => !autoWritesRef.current.has(`archive:${task.id}`))
+      .forEach(task => {
+        autoWritesRef.current.add(`archive:${task.id}`);
+        writeUpdate(task.id, { archivedAt: new Date() });
+      });
+  }, [userId, tasks, archiveAfterDays, writeUpdate]);
+
+  // Purge trashed tasks whose retention period is over
+  const retentionDays = preferences.trashRetentionDays;
+  useEffect(() => {
+    if (!userId) return;
+    tasksToPurge(trashedTasks, retentionDays)
+      .filter(task => !autoWritesRef.current.has(`purge:${task.id}`))
+      .forEach(task => {
+        autoWritesRef.current.add(`purge:${task.id}`);
+        writeRemove(task.id);
+      });
+  }, [userId, trashedTasks, retentionDays, writeRemove]);
+
+  /**
+   * Toggle task status between pending and completed.
+   * Completing a recurring task spawns its next occurrence.
+   */
+  const toggleTaskStatus = useCallback((id: string) => {
+    const existing = tasks.find(t => t.id === id);
+    if (!userId || !existing) return;
+
+    const completing = existing.status === 'pending';
+    const changes: HistoryChange[] = [{ taskId: id, before: existing }];
+    writeUpdate(id, withChanges(existing, completing
+      ? { status: 'completed', completedAt: new Date() }
+      : { status: 'pending', completedAt: undefined }));
+
+    if (completing && existing.recurrence) {
+      const nextDeadline = getNextOccurrence(existing.recurrence, existing.deadline);
+      // Re-completing a task that was reopened must not spawn a duplicate
+      const alreadySpawned = nextDeadline && tasks.some(t =>
+        t.id !== id &&
+        t.title === existing.title &&
+        new Date(t.deadline).getTime() === nextDeadline.getTime()
+      );
+      if (nextDeadline && !alreadySpawned) {
+        // Written under an id picked here, so the undo entry is complete
+        // before anything reaches the backend
+        const next: Task = {
+          id: generateId(),
+          userId,
+          title: existing.title,
+          description: existing.description,
+          createdAt: new Date(),
+          deadline: nextDeadline,
+          priority: existing.priority,
+          status: 'pending',
+          category: existing.category,
+          categoryColor: existing.categoryColor,
+          recurrence: advanceRule(existing.recurrence),
+          checklist: existing.checklist?.map(item => ({ ...item, completed: false }))
+        };
+        writePut(next);
+        // Undoing the completion also removes the spawned occurrence
+        changes.push({ taskId: next.id, before: null });
       }
+    }
+
+    record(completing ? 'Complete task' : 'Reopen task', changes);
+  }, [userId, tasks, record, writeUpdate, writePut]);
+
+  /**
+   * Toggle a single checklist item inside a task
+   */
+  const toggleChecklistItem = useCallback((taskId: string, itemId: string) => {
+    const existing = tasks.find(t => t.id === taskId);
+    if (!userId || !existing?.checklist) return;
+
+    record('Toggle checklist item', [{ taskId, before: existing }]);
+    writeUpdate(taskId, withChanges(existing, {
+      checklist: existing.checklist.map(item =>
+        item.id === itemId ? { ...item, completed: !item.completed } : item
+      )
+    }));
+  }, [userId, tasks, record, writeUpdate]);
+
+  /**
+   * Store the manual order after a task was dragged to its position in
+   * `orderedIds` (the list as displayed)
+   */
+  const moveTask = useCallback((taskId: string, orderedIds: string[]) => {
+    // Keys ascend in manual order, which is shown reversed when descending
+    const ascending = sort.direction === 'desc' ? [...orderedIds].reverse() : orderedIds;
+    const currentKeys = new Map(tasks.map(t => [t.id, t.sortOrder]));
+    const keys = reorderKeys(ascending, taskId, currentKeys);
+    if (!userId || keys.size === 0) return;
+
+    // One undo step for the whole move
+    record('Move task', Array.from(keys.keys()).map(id => ({ taskId: id, before: tasks.find(t => t.id === id) ?? null })));
+    keys.forEach((sortOrder, id) => writeUpdate(id, { sortOrder }));
+  }, [userId, tasks, sort.direction, record, writeUpdate]);
+
+  /**
+   * Move every task in category `from` to `to` (or to no category).
+   * Also used after a rename or recolor to keep task badges in sync.
+   * Follows category changes, which are not undoable themselves, so neither is this.
+   */
+  const reassignCategory = useCallback((from: string, to: Category | null) => {
+    if (!userId) return;
+    const updates = { category: to?.name, categoryColor: to?.color };
+    // Trashed tasks too, so they come back with a category that exists
+    const loaded = allTasks.filter(t => t.category === from);
+    loaded.forEach(t => writeUpdate(t.id, updates));
+
+    // Archived tasks are not loaded, so fetch them to keep their badges current
+    const done = new Set(loaded.map(t => t.id));
+    repository.getArchived(userId)
+      .then(archived => archived
+        .filter(t => t.category === from && !done.has(t.id))
+        .forEach(t => writeUpdate(t.id, updates)))
+      .catch(e => console.error('Failed to reassign archived tasks:', e));
+  }, [userId, allTasks, repository, writeUpdate]);
+
+  /**
+   * Put every task of the newest entry on one stack back the way it was,
+   * and push the current state onto the other stack
+   */
+  const stepHistory = useCallback((from: keyof History): string | null => {
+    const current = historyRef.current;
+    const entry = current[from][current[from].length - 1];
+    if (!userId || !entry) return null;
+
+    const inverse: HistoryEntry = {
+      label: entry.label,
+      changes: entry.changes.map(({ taskId }) => ({
+        taskId,
+        before: tasksRef.current.find(t => t.id === taskId) ?? null
+      }))
     };
+    entry.changes.forEach(({ taskId, before }) => (before ? writePut(before) : writeRemove(taskId)));
+
+    writeHistory(from === 'undo'
+      ? { undo: current.undo.slice(0, -1), redo: [...current.redo, inverse] }
+      : { undo: [...current.undo, inverse].slice(-HISTORY_LIMIT), redo: current.redo.slice(0, -1) });
+    return entry.label;
+  }, [userId, writePut, writeRemove, writeHistory]);
+
+  const undo = useCallback(() => stepHistory('undo'), [stepHistory]);
+  const redo = useCallback(() => stepHistory('redo'), [stepHistory]);
 
-    toggle();
-  }, [userId, tasks]);
+  /**
+   * Add or remove a category from the category filter
+   */
+  const toggleCategoryFilter = useCallback((category: string) => {
+    setCategoryFilter(prev =>
+      prev.includes(category) ? prev.filter(c => c !== category) : [...prev, category]
+    );
+  }, []);
+
+  /**
+   * Dismiss a sync conflict from the visible list
+   */
+  const dismissConflict = useCallback((conflictId: string) => {
+    writeOutbox({
+      ...outboxRef.current,
+      conflicts: outboxRef.current.conflicts.filter(c => c.id !== conflictId)
+    });
+  }, [writeOutbox]);
 
   /**
    * Get task statistics
    */
-  const getTaskStats = useCallback(() => {
+  const getTaskStats = useCallback((): TaskStats => {
     const now = new Date();
-    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    const progress = tasks.map(t => checklistProgress(t.checklist));
 
     return {
       total: tasks.length,
       completed: tasks.filter(t => t.status === 'completed').length,
       pending: tasks.filter(t => t.status === 'pending').length,
-      overdue: tasks.filter(t => 
-        t.status === 'pending' && new Date(t.deadline) < today
-      ).length
+      overdue: tasks.filter(t => isTaskOverdue(t, now)).length,
+      inProgress: tasks.filter((t, i) =>
+        t.status === 'pending' && progress[i].done > 0 && progress[i].done < progress[i].total
+      ).length,
+      checklistCompleted: progress.reduce((sum, p) => sum + p.done, 0),
+      checklistTotal: progress.reduce((sum, p) => sum + p.total, 0)
     };
   }, [tasks]);
 
+  /**
+   * Pick a built-in filter; this leaves any saved view
+   */
+  const setFilter = useCallback((next: FilterType) => {
+    setFilterState(next);
+    setActiveViewState(null);
+  }, []);
+
+  /**
+   * Show a saved view, which takes the place of the built-in filters
+   */
+  const setActiveView = useCallback((view: SavedView | null) => {
+    setActiveViewState(view);
+    if (view) setFilterState('all');
+  }, []);
+
+  const setSort = useCallback((next: SortPreference) => {
+    updatePreferences({ sort: next });
+  }, [updatePreferences]);
+
+  const parsedSearch = useMemo(() => parseQuery(searchQuery), [searchQuery]);
+  const parsedView = useMemo(() => (activeView ? parseQuery(activeView.query) : null), [activeView]);
+
+  // Search box and active view both have to match
+  const queryPredicate = useMemo(() => (task: Task, now: Date) =>
+    parsedSearch.predicate(task, now) && (!parsedView || parsedView.predicate(task, now)),
+  [parsedSearch, parsedView]);
+
   // Memoized filtered and sorted tasks
   const filteredTasks = useMemo(() => {
-    const filtered = filterTasks(tasks, filter, categoryFilter);
-    return sortTasks(filtered);
-  }, [tasks, filter, categoryFilter]);
+    const filtered = filterTasks(tasks, filter, categoryFilter, queryPredicate);
+    return sortTasks(filtered, sort);
+  }, [tasks, filter, categoryFilter, queryPredicate, sort]);
+
+  // Tasks per category under the active filter type and search, for the category chips
+  const categoryCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    filterTasks(tasks, filter, [], queryPredicate).forEach(task => {
+      const key = categoryKey(task);
+      counts[key] = (counts[key] ?? 0) + 1;
+    });
+    return counts;
+  }, [tasks, filter, queryPredicate]);
 
   return {
     tasks,
+    trashedTasks,
     filteredTasks,
     filter,
     categoryFilter,
+    categoryCounts,
+    searchQuery,
+    searchText: parsedSearch.text,
+    queryErrors: parsedSearch.errors,
+    activeView,
+    setActiveView,
+    setSearchQuery,
+    sort,
+    setSort,
+    preferences,
+    updatePreferences,
+    saveView,
+    deleteView,
     setFilter,
     setCategoryFilter,
+    toggleCategoryFilter,
     addTask,
+    importTasks,
     updateTask,
     deleteTask,
+    restoreTask,
+    purgeTask,
+    emptyTrash,
+    archiveTask,
+    unarchiveTask,
+    archiveCompleted,
+    loadArchivedTasks,
+    getTask,
     toggleTaskStatus,
-    getTaskStats
+    toggleChecklistItem,
+    moveTask,
+    reassignCategory,
+    getTaskStats,
+    undo,
+    redo,
+    canUndo: history.undo.length > 0,
+    canRedo: history.redo.length > 0,
+    pendingCount: outbox.mutations.length,
+    syncing,
+    conflicts: outbox.conflicts,
+    dismissConflict
   };
 };
@@ -0,0 +1,25 @@
+import { useEffect } from 'react';
+
+/**
+ * Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS, and Ctrl+Y) for undo and redo.
+ * Text fields keep their own undo, so key presses inside them are ignored.
+ */
+export const useUndoShortcuts = (onUndo: () => void, onRedo: () => void) => {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const key = e.key.toLowerCase();
+      if (key !== 'z' && key !== 'y') return;
+
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+
+      e.preventDefault();
+      if (key === 'y' || e.shiftKey) onRedo();
+      else onUndo();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onUndo, onRedo]);
+};
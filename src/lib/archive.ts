@@ -0,0 +1,42 @@
+/**
+ * Archive Helpers
+ *
+ * Archiving is separate from completion: a completed task stays in the
+ * list until it is archived, by hand or automatically a number of days
+ * (a user preference) after it was completed. Archived tasks are only
+ * loaded on the Archive page.
+ */
+
+import { addDays } from 'date-fns';
+import { Task } from '@/types';
+
+export const DEFAULT_ARCHIVE_AFTER_DAYS = 7;
+
+// 0 turns auto-archiving off
+export const ARCHIVE_AFTER_OPTIONS: { days: number; label: string }[] = [
+  { days: 1, label: '1 day' },
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 0, label: 'Never' },
+];
+
+export const isArchived = (task: Task): boolean => Boolean(task.archivedAt);
+
+/**
+ * When a task was completed. Tasks completed before completion times were
+ * recorded fall back to their deadline.
+ */
+export const completedOn = (task: Task): Date => new Date(task.completedAt ?? task.deadline);
+
+/**
+ * Completed tasks (outside the trash) due for auto-archiving
+ */
+export const tasksToArchive = (tasks: Task[], afterDays: number, now: Date = new Date()): Task[] =>
+  afterDays > 0
+    ? tasks.filter(task =>
+        task.status === 'completed' &&
+        !task.archivedAt &&
+        !task.deletedAt &&
+        addDays(completedOn(task), afterDays) <= now
+      )
+    : [];
@@ -0,0 +1,87 @@
+/**
+ * Board Columns
+ *
+ * Columns for the board view are derived from one task field. Moving a
+ * task to another column means writing that field, which columnUpdate
+ * describes.
+ */
+
+import { BoardGrouping, Category, Priority, Task } from '@/types';
+import { UNCATEGORIZED } from '@/lib/categories';
+
+export interface BoardColumn {
+  // Value of the grouped field (status, priority, or category name)
+  id: string;
+  label: string;
+  color?: string;
+}
+
+const STATUS_COLUMNS: BoardColumn[] = [
+  { id: 'pending', label: 'To do' },
+  { id: 'completed', label: 'Done' },
+];
+
+const PRIORITY_COLUMNS: BoardColumn[] = [
+  { id: 'high', label: 'High' },
+  { id: 'medium', label: 'Medium' },
+  { id: 'low', label: 'Low' },
+];
+
+export const BOARD_GROUPINGS: { value: BoardGrouping; label: string }[] = [
+  { value: 'status', label: 'Status' },
+  { value: 'priority', label: 'Priority' },
+  { value: 'category', label: 'Category' },
+];
+
+export const boardColumns = (groupBy: BoardGrouping, categories: Category[]): BoardColumn[] => {
+  switch (groupBy) {
+    case 'priority':
+      return PRIORITY_COLUMNS;
+    case 'category':
+      return [
+        ...categories.map(c => ({ id: c.name, label: c.name, color: c.color })),
+        { id: UNCATEGORIZED, label: 'Uncategorized' },
+      ];
+    case 'status':
+    default:
+      return STATUS_COLUMNS;
+  }
+};
+
+/**
+ * Column a task belongs to
+ */
+export const columnOf = (task: Task, groupBy: BoardGrouping): string => {
+  switch (groupBy) {
+    case 'priority':
+      return task.priority;
+    case 'category':
+      return task.category || UNCATEGORIZED;
+    case 'status':
+    default:
+      return task.status;
+  }
+};
+
+/**
+ * Changes that move a task into a column. Status changes are left to
+ * toggleTaskStatus, which also handles recurring tasks.
+ */
+export const columnUpdate = (groupBy: BoardGrouping, columnId: string, categories: Category[]): Partial<Task> => {
+  switch (groupBy) {
+    case 'priority':
+      return { priority: columnId as Priority };
+    case 'category': {
+      if (columnId === UNCATEGORIZED) return { category: undefined, categoryColor: undefined };
+      const category = categories.find(c => c.name === columnId);
+      return { category: columnId, categoryColor: category?.color };
+    }
+    default:
+      return {};
+  }
+};
+
+/**
+ * Key a collapsed column is remembered under
+ */
+export const collapseKey = (groupBy: BoardGrouping, columnId: string) => `${groupBy}:${columnId}`;
@@ -0,0 +1,97 @@
+/**
+ * Calendar Helpers
+ *
+ * Date ranges and rescheduling for the calendar page. Weeks start on
+ * Monday, like the weekday pickers in the task form.
+ */
+
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfDay,
+  endOfMonth,
+  endOfWeek,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import { Task } from '@/types';
+
+export type CalendarMode = 'month' | 'week' | 'day';
+
+// Whether a drop target stands for a whole day or a single hour
+export type SlotGranularity = 'day' | 'hour';
+
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const;
+
+/**
+ * Days shown for a mode; the month grid is padded to whole weeks
+ */
+export const visibleDays = (mode: CalendarMode, date: Date): Date[] => {
+  switch (mode) {
+    case 'month':
+      return eachDayOfInterval({
+        start: startOfWeek(startOfMonth(date), WEEK_OPTIONS),
+        end: endOfWeek(endOfMonth(date), WEEK_OPTIONS),
+      });
+    case 'week':
+      return eachDayOfInterval({
+        start: startOfWeek(date, WEEK_OPTIONS),
+        end: endOfWeek(date, WEEK_OPTIONS),
+      });
+    case 'day':
+    default:
+      return [startOfDay(date)];
+  }
+};
+
+/**
+ * Move the visible period back (-1) or forward (1)
+ */
+export const stepDate = (mode: CalendarMode, date: Date, direction: -1 | 1): Date => {
+  switch (mode) {
+    case 'month':
+      return addMonths(date, direction);
+    case 'week':
+      return addWeeks(date, direction);
+    case 'day':
+    default:
+      return addDays(date, direction);
+  }
+};
+
+/**
+ * Tasks due within [start, end] of the given days, keyed by day start time
+ */
+export const groupByDay = (tasks: Task[], days: Date[]): Map<number, Task[]> => {
+  const groups = new Map<number, Task[]>(days.map(day => [startOfDay(day).getTime(), []]));
+  if (days.length === 0) return groups;
+
+  const start = startOfDay(days[0]).getTime();
+  const end = endOfDay(days[days.length - 1]).getTime();
+  tasks.forEach(task => {
+    const deadline = new Date(task.deadline);
+    if (deadline.getTime() < start || deadline.getTime() > end) return;
+    groups.get(startOfDay(deadline).getTime())?.push(task);
+  });
+  groups.forEach(list => list.sort((a, b) => new Date(a.deadline).getTime() - new Date(b.deadline).getTime()));
+  return groups;
+};
+
+/**
+ * New deadline after dropping a task on a slot. Dropping on a day keeps
+ * the time of day; dropping on an hour keeps the minutes.
+ */
+export const rescheduleTo = (deadline: Date, slotStart: Date, granularity: SlotGranularity): Date => {
+  const current = new Date(deadline);
+  const next = new Date(slotStart);
+  if (granularity === 'day') {
+    next.setHours(current.getHours(), current.getMinutes(), current.getSeconds(), 0);
+  } else {
+    next.setMinutes(current.getMinutes(), current.getSeconds(), 0);
+  }
+  return next;
+};
+
@@ -0,0 +1,46 @@
+/**
+ * Category Helpers
+ *
+ * Palette and defaults for user-defined categories. Colors are stored as
+ * hex strings so they can be used directly in inline styles.
+ */
+
+import React from 'react';
+import { Category } from '@/types';
+
+export const CATEGORY_COLORS = [
+  '#6366f1', // indigo
+  '#ec4899', // pink
+  '#f59e0b', // amber
+  '#10b981', // emerald
+  '#3b82f6', // blue
+  '#ef4444', // red
+  '#8b5cf6', // violet
+  '#14b8a6', // teal
+];
+
+// Seeded for users that have not defined any categories yet. The ids are
+// fixed, so devices seeding at the same time write the same documents.
+export const DEFAULT_CATEGORIES: Category[] = [
+  { id: 'default-work', name: 'Work', color: '#6366f1' },
+  { id: 'default-personal', name: 'Personal', color: '#ec4899' },
+  { id: 'default-shopping', name: 'Shopping', color: '#f59e0b' },
+  { id: 'default-health', name: 'Health', color: '#10b981' },
+  { id: 'default-study', name: 'Study', color: '#3b82f6' },
+];
+
+// Category filter value that matches tasks without a category
+export const UNCATEGORIZED = '__uncategorized__';
+
+/**
+ * Next palette color not used by any existing category
+ */
+export const pickCategoryColor = (categories: Category[]): string =>
+  CATEGORY_COLORS.find(color => !categories.some(c => c.color === color)) ??
+  CATEGORY_COLORS[categories.length % CATEGORY_COLORS.length];
+
+/**
+ * Tinted badge style for a category color
+ */
+export const categoryBadgeStyle = (color?: string): React.CSSProperties | undefined =>
+  color ? { backgroundColor: `${color}26`, color } : undefined;
@@ -0,0 +1,46 @@
+/**
+ * Checklist Helpers
+ *
+ * Checklist items live in an array on the task document and carry an
+ * explicit `order`, so they can be reordered without depending on how
+ * the backend stores arrays.
+ */
+
+import { ChecklistItem } from '@/types';
+import { generateId } from '@/lib/utils';
+
+export const createChecklistItem = (text: string, order: number): ChecklistItem => ({
+  id: generateId(),
+  text,
+  completed: false,
+  order
+});
+
+/**
+ * Items in display order
+ */
+export const sortChecklist = (items: ChecklistItem[] = []): ChecklistItem[] =>
+  [...items].sort((a, b) => a.order - b.order);
+
+/**
+ * Renumber items so `order` matches their position in the array
+ */
+export const renumberChecklist = (items: ChecklistItem[]): ChecklistItem[] =>
+  items.map((item, index) => ({ ...item, order: index }));
+
+/**
+ * Move an item up (-1) or down (+1) and renumber
+ */
+export const moveChecklistItem = (items: ChecklistItem[], id: string, direction: -1 | 1): ChecklistItem[] => {
+  const sorted = sortChecklist(items);
+  const index = sorted.findIndex(item => item.id === id);
+  const target = index + direction;
+  if (index === -1 || target < 0 || target >= sorted.length) return sorted;
+  [sorted[index], sorted[target]] = [sorted[target], sorted[index]];
+  return renumberChecklist(sorted);
+};
+
+export const checklistProgress = (items: ChecklistItem[] = []) => {
+  const done = items.filter(item => item.completed).length;
+  return { done, total: items.length };
+};
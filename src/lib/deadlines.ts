@@ -0,0 +1,14 @@
+/**
+ * Deadline Helpers
+ *
+ * The rule for when a task counts as overdue, shared by the cards, stats,
+ * filters, query language and calendar so they all agree: a pending task
+ * is overdue once the day of its deadline is over. A task due earlier
+ * today is still just due today.
+ */
+
+import { startOfDay } from 'date-fns';
+import { Task } from '@/types';
+
+export const isTaskOverdue = (task: Task, now: Date = new Date()): boolean =>
+  task.status === 'pending' && new Date(task.deadline) < startOfDay(now);
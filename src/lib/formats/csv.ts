@@ -0,0 +1,131 @@
+/**
+ * CSV Format
+ *
+ * RFC 4180 style: comma separated, fields quoted when they contain commas,
+ * quotes or line breaks. Imports map each column to a task field; the
+ * mapping is guessed from the header row and can be changed before import.
+ */
+
+import { format } from 'date-fns';
+import { ImportedTask, Task } from '@/types';
+import { ParseResult, toImportedTask } from './fields';
+
+export type CsvField = 'title' | 'description' | 'deadline' | 'priority' | 'status' | 'category' | 'createdAt';
+
+// Column index for each mapped field
+export type CsvMapping = Partial<Record<CsvField, number>>;
+
+export const CSV_FIELDS: { value: CsvField; label: string; aliases: string[] }[] = [
+  { value: 'title', label: 'Title', aliases: ['title', 'name', 'task', 'summary', 'subject'] },
+  { value: 'description', label: 'Description', aliases: ['description', 'notes', 'note', 'details', 'body'] },
+  { value: 'deadline', label: 'Deadline', aliases: ['deadline', 'due', 'due date', 'duedate', 'date'] },
+  { value: 'priority', label: 'Priority', aliases: ['priority', 'importance'] },
+  { value: 'status', label: 'Status', aliases: ['status', 'completed', 'done', 'state'] },
+  { value: 'category', label: 'Category', aliases: ['category', 'project', 'list', 'tag', 'tags'] },
+  { value: 'createdAt', label: 'Created', aliases: ['created', 'createdat', 'created at', 'created date'] },
+];
+
+const COLUMNS: CsvField[] = ['title', 'description', 'deadline', 'priority', 'status', 'category', 'createdAt'];
+
+const escapeField = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const serializeCsv = (tasks: Task[]): string => {
+  const rows = tasks.map(task => [
+    task.title,
+    task.description,
+    format(new Date(task.deadline), "yyyy-MM-dd'T'HH:mm"),
+    task.priority,
+    task.status,
+    task.category ?? '',
+    format(new Date(task.createdAt), "yyyy-MM-dd'T'HH:mm"),
+  ]);
+  return [COLUMNS, ...rows].map(row => row.map(escapeField).join(',')).join('\r\n') + '\r\n';
+};
+
+/**
+ * Split CSV text into rows of fields
+ */
+export const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ',') {
+      row.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += c;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  // Drop blank lines
+  return rows.filter(r => r.some(value => value.trim()));
+};
+
+/**
+ * Guess which column holds which field from the header names
+ */
+export const guessCsvMapping = (headers: string[]): CsvMapping => {
+  const mapping: CsvMapping = {};
+  const normalized = headers.map(h => h.trim().toLowerCase().replace(/[_-]+/g, ' '));
+  CSV_FIELDS.forEach(field => {
+    const index = normalized.findIndex(h => field.aliases.includes(h) || field.aliases.includes(h.replace(/\s+/g, '')));
+    if (index !== -1 && !Object.values(mapping).includes(index)) mapping[field.value] = index;
+  });
+  return mapping;
+};
+
+/**
+ * Turn data rows (without the header) into tasks using a column mapping
+ */
+export const csvRowsToTasks = (rows: string[][], mapping: CsvMapping): ParseResult => {
+  const tasks: ImportedTask[] = [];
+  const errors: string[] = [];
+  const cell = (row: string[], field: CsvField) =>
+    mapping[field] !== undefined ? row[mapping[field]!] : undefined;
+
+  rows.forEach((row, index) => {
+    const task = toImportedTask({
+      title: cell(row, 'title'),
+      description: cell(row, 'description'),
+      deadline: cell(row, 'deadline'),
+      priority: cell(row, 'priority'),
+      status: cell(row, 'status'),
+      category: cell(row, 'category'),
+      createdAt: cell(row, 'createdAt'),
+    });
+    // Rows are numbered as in a spreadsheet, after the header
+    if (typeof task === 'string') errors.push(`Row ${index + 2}: ${task}`);
+    else tasks.push(task);
+  });
+  return { tasks, errors };
+};
+
+export const parseCsv = (text: string): ParseResult => {
+  const [headers = [], ...rows] = parseCsvRows(text);
+  return csvRowsToTasks(rows, guessCsvMapping(headers));
+};
@@ -0,0 +1,90 @@
+/**
+ * Import Field Helpers
+ *
+ * Shared by the import formats: turn loosely typed values from a file into
+ * task fields, falling back to the same defaults as the task form.
+ */
+
+import { endOfDay } from 'date-fns';
+import { ImportedTask, Priority, Task, TaskStatus } from '@/types';
+import { normalizeText } from '@/lib/search';
+
+export interface ParseResult {
+  tasks: ImportedTask[];
+  // Problems with individual entries, which are skipped
+  errors: string[];
+}
+
+const PRIORITY_VALUES: Record<string, Priority> = {
+  high: 'high', h: 'high', '3': 'high', a: 'high',
+  medium: 'medium', med: 'medium', m: 'medium', normal: 'medium', '2': 'medium', b: 'medium',
+  low: 'low', l: 'low', '1': 'low', c: 'low',
+};
+
+const COMPLETED_VALUES = ['completed', 'complete', 'done', 'x', 'yes', 'true', '1'];
+
+export const parsePriority = (value: unknown): Priority =>
+  PRIORITY_VALUES[String(value ?? '').trim().toLowerCase()] ?? 'medium';
+
+export const parseStatus = (value: unknown): TaskStatus =>
+  COMPLETED_VALUES.includes(String(value ?? '').trim().toLowerCase()) ? 'completed' : 'pending';
+
+/**
+ * Parse a date, or undefined when missing or invalid
+ */
+export const parseDate = (value: unknown): Date | undefined => {
+  if (value instanceof Date) return isNaN(value.getTime()) ? undefined : value;
+  const text = String(value ?? '').trim();
+  if (!text) return undefined;
+  // Date-only values mean local midnight, not UTC
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(text) ? new Date(`${text}T00:00`) : new Date(text);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+/**
+ * Build an imported task from loose fields; returns an error message when
+ * there is no title. Tasks without a deadline are due at the end of today.
+ */
+export const toImportedTask = (fields: {
+  title?: unknown;
+  description?: unknown;
+  deadline?: unknown;
+  priority?: unknown;
+  status?: unknown;
+  category?: unknown;
+  createdAt?: unknown;
+}): ImportedTask | string => {
+  const title = String(fields.title ?? '').trim();
+  if (!title) return 'Missing title';
+
+  const category = String(fields.category ?? '').trim();
+  return {
+    title,
+    description: String(fields.description ?? '').trim(),
+    deadline: parseDate(fields.deadline) ?? endOfDay(new Date()),
+    priority: parsePriority(fields.priority),
+    status: parseStatus(fields.status),
+    category: category || undefined,
+    createdAt: parseDate(fields.createdAt),
+  };
+};
+
+/**
+ * Key two tasks share when they are likely the same: title ignoring case
+ * and accents, and deadline to the minute
+ */
+export const duplicateKey = (task: Pick<Task, 'title' | 'deadline'>): string =>
+  `${normalizeText(task.title.trim())}|${Math.floor(new Date(task.deadline).getTime() / 60000)}`;
+
+/**
+ * Which imported tasks already exist, or appear earlier in the same file
+ */
+export const findDuplicates = (imported: ImportedTask[], existing: Task[]): boolean[] => {
+  const seen = new Set(existing.map(duplicateKey));
+  return imported.map(task => {
+    const key = duplicateKey(task);
+    if (seen.has(key)) return true;
+    seen.add(key);
+    return false;
+  });
+};
@@ -0,0 +1,235 @@
+/**
+ * iCalendar Format (RFC 5545)
+ *
+ * Exports pending tasks as a VCALENDAR, either as VTODO entries (for apps
+ * with task lists) or as VEVENT entries at the deadline (for calendars that
+ * ignore to-dos). Priorities map to PRIORITY 1/5/9, categories to
+ * CATEGORIES, recurrence to RRULE and reminders to VALARM.
+ *
+ * Imports read VTODO entries only. Times with a TZID are read as local time.
+ */
+
+import { addDays, endOfDay, format } from 'date-fns';
+import { ImportedTask, Priority, Task, TaskReminder } from '@/types';
+import { fromRRule, toRRule } from '@/lib/recurrence';
+import { createReminder } from '@/lib/reminders';
+import { ParseResult } from './fields';
+
+export type IcsComponent = 'VTODO' | 'VEVENT';
+
+const PRIORITY_VALUES: Record<Priority, number> = { high: 1, medium: 5, low: 9 };
+
+// Length of a timed deadline event
+const EVENT_MINUTES = 30;
+
+const MAX_LINE_OCTETS = 75;
+
+const escapeText = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const unescapeText = (text: string) =>
+  text.replace(/\\([\\;,nN])/g, (_, c: string) => (c === 'n' || c === 'N' ? '\n' : c));
+
+const formatUtc = (date: Date) => new Date(date).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const formatDateOnly = (date: Date) => format(date, 'yyyyMMdd');
+
+/**
+ * Fold a content line at 75 octets, continuing with a leading space
+ */
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+
+  const chunks: string[] = [];
+  let chunk = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      chunks.push(chunk);
+      chunk = '';
+      octets = 0;
+    }
+    chunk += char;
+    octets += size;
+  }
+  chunks.push(chunk);
+  return chunks.join('\r\n ');
+};
+
+// Deadlines at the end of a day, the default when no time is set, are all-day
+const isAllDay = (date: Date) => {
+  const d = new Date(date);
+  return d.getHours() === 23 && d.getMinutes() === 59;
+};
+
+const alarmLines = (reminders: TaskReminder[] = [], component: IcsComponent): string[] =>
+  reminders.flatMap(reminder => [
+    'BEGIN:VALARM',
+    'ACTION:DISPLAY',
+    'DESCRIPTION:Reminder',
+    // To-do alarms count back from DUE, event alarms from DTSTART
+    `TRIGGER${component === 'VTODO' ? ';RELATED=END' : ''}:-PT${reminder.minutesBefore}M`,
+    'END:VALARM',
+  ]);
+
+const componentLines = (task: Task, component: IcsComponent, stamp: string): string[] => {
+  const deadline = new Date(task.deadline);
+  const lines = [
+    `BEGIN:${component}`,
+    `UID:${task.id}@donezit`,
+    `DTSTAMP:${stamp}`,
+    `CREATED:${formatUtc(task.createdAt)}`,
+    `SUMMARY:${escapeText(task.title)}`,
+  ];
+  if (task.description) lines.push(`DESCRIPTION:${escapeText(task.description)}`);
+
+  if (component === 'VTODO') {
+    lines.push(`DUE:${formatUtc(deadline)}`, 'STATUS:NEEDS-ACTION');
+  } else if (isAllDay(deadline)) {
+    lines.push(
+      `DTSTART;VALUE=DATE:${formatDateOnly(deadline)}`,
+      `DTEND;VALUE=DATE:${formatDateOnly(addDays(deadline, 1))}`,
+      'TRANSP:TRANSPARENT'
+    );
+  } else {
+    lines.push(`DTSTART:${formatUtc(deadline)}`, `DURATION:PT${EVENT_MINUTES}M`);
+  }
+
+  lines.push(`PRIORITY:${PRIORITY_VALUES[task.priority]}`);
+  if (task.category) lines.push(`CATEGORIES:${escapeText(task.category)}`);
+  if (task.recurrence) lines.push(`RRULE:${toRRule(task.recurrence)}`);
+  lines.push(...alarmLines(task.reminders, component), `END:${component}`);
+  return lines;
+};
+
+/**
+ * VCALENDAR of the pending tasks, one component per task
+ */
+export const serializeIcs = (tasks: Task[], component: IcsComponent = 'VTODO'): string => {
+  const stamp = formatUtc(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//DoneZit//Tasks//EN',
+    'CALSCALE:GREGORIAN',
+    'X-WR-CALNAME:DoneZit',
+    ...tasks.filter(task => task.status === 'pending').flatMap(task => componentLines(task, component, stamp)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+interface Property {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/**
+ * Unfold continuation lines and split each into name, parameters and value
+ */
+const parseProperties = (text: string): Property[] =>
+  text
+    .replace(/\r?\n[ \t]/g, '')
+    .split(/\r?\n/)
+    .filter(line => line.trim())
+    .map(line => {
+      // The value starts at the first colon outside a quoted parameter
+      let quoted = false;
+      let colon = -1;
+      for (let i = 0; i < line.length && colon === -1; i++) {
+        if (line[i] === '"') quoted = !quoted;
+        else if (line[i] === ':' && !quoted) colon = i;
+      }
+      const head = colon === -1 ? line : line.slice(0, colon);
+      const [name, ...paramParts] = head.split(';');
+      const params: Record<string, string> = {};
+      paramParts.forEach(part => {
+        const [key, ...rest] = part.split('=');
+        params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+      });
+      return { name: name.toUpperCase(), params, value: colon === -1 ? '' : line.slice(colon + 1) };
+    });
+
+/**
+ * DATE or DATE-TIME value; all-day dates mean the end of that day
+ */
+const parseIcsDate = (property?: Property): Date | undefined => {
+  const m = property?.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!m) return undefined;
+  const [, y, mo, d, h, mi, s, utc] = m;
+  if (h === undefined) return endOfDay(new Date(Number(y), Number(mo) - 1, Number(d)));
+  const parts = [Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi), Number(s)] as const;
+  return utc ? new Date(Date.UTC(...parts)) : new Date(...parts);
+};
+
+const parseIcsPriority = (value?: string): Priority => {
+  const level = Number(value);
+  if (!level) return 'medium';
+  return level <= 4 ? 'high' : level === 5 ? 'medium' : 'low';
+};
+
+// Minutes before the deadline for a trigger such as -PT15M or -P1DT2H
+const triggerMinutes = (value: string): number | null => {
+  const m = value.match(/^-P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!m) return null;
+  const [, w = '0', d = '0', h = '0', mi = '0'] = m;
+  return Number(w) * 7 * 24 * 60 + Number(d) * 24 * 60 + Number(h) * 60 + Number(mi);
+};
+
+/**
+ * Read the VTODO entries of a calendar file as tasks
+ */
+export const parseIcs = (text: string): ParseResult => {
+  const tasks: ImportedTask[] = [];
+  const errors: string[] = [];
+  let todo: Property[] | null = null;
+  let alarm: Property[] | null = null;
+  let reminders: TaskReminder[] = [];
+
+  parseProperties(text).forEach(property => {
+    const { name, value } = property;
+    if (name === 'BEGIN' && value.toUpperCase() === 'VTODO') {
+      todo = [];
+      reminders = [];
+    } else if (todo && name === 'BEGIN' && value.toUpperCase() === 'VALARM') {
+      alarm = [];
+    } else if (alarm && name === 'END' && value.toUpperCase() === 'VALARM') {
+      const trigger = alarm.find(p => p.name === 'TRIGGER');
+      const minutes = trigger && !trigger.params.VALUE ? triggerMinutes(trigger.value) : null;
+      if (minutes !== null) reminders.push(createReminder(minutes));
+      alarm = null;
+    } else if (alarm) {
+      alarm.push(property);
+    } else if (todo && name === 'END' && value.toUpperCase() === 'VTODO') {
+      const get = (key: string) => todo!.find(p => p.name === key);
+      const title = unescapeText(get('SUMMARY')?.value ?? '').trim();
+      if (!title) {
+        errors.push(`To-do ${tasks.length + errors.length + 1}: Missing title`);
+      } else {
+        const rrule = get('RRULE');
+        const category = get('CATEGORIES')?.value.split(/(?<!\\),/)[0];
+        tasks.push({
+          title,
+          description: unescapeText(get('DESCRIPTION')?.value ?? '').trim(),
+          deadline: parseIcsDate(get('DUE') ?? get('DTSTART')) ?? endOfDay(new Date()),
+          priority: parseIcsPriority(get('PRIORITY')?.value),
+          status: get('STATUS')?.value.toUpperCase() === 'COMPLETED' || get('COMPLETED') ? 'completed' : 'pending',
+          category: category ? unescapeText(category).trim() || undefined : undefined,
+          createdAt: parseIcsDate(get('CREATED')),
+          recurrence: rrule ? fromRRule(rrule.value) ?? undefined : undefined,
+          reminders: reminders.length > 0 ? reminders : undefined,
+        });
+      }
+      todo = null;
+    } else if (todo) {
+      todo.push(property);
+    }
+  });
+
+  return { tasks, errors };
+};
@@ -0,0 +1,54 @@
+/**
+ * Task Import/Export Formats
+ *
+ * Each format turns tasks into a file and a file back into tasks to be
+ * created. CSV imports can also be re-mapped column by column (see csv.ts).
+ */
+
+import { Task } from '@/types';
+import { ParseResult } from './fields';
+import { parseJson, serializeJson } from './json';
+import { parseCsv, serializeCsv } from './csv';
+import { parseMarkdown, serializeMarkdown } from './markdown';
+import { parseTodoTxt, serializeTodoTxt } from './todotxt';
+
+export type TaskFormatId = 'json' | 'csv' | 'markdown' | 'todotxt';
+
+export interface TaskFormat {
+  id: TaskFormatId;
+  label: string;
+  extension: string;
+  mimeType: string;
+  serialize: (tasks: Task[]) => string;
+  parse: (text: string) => ParseResult;
+}
+
+export const TASK_FORMATS: TaskFormat[] = [
+  { id: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json', serialize: serializeJson, parse: parseJson },
+  { id: 'csv', label: 'CSV', extension: 'csv', mimeType: 'text/csv', serialize: serializeCsv, parse: parseCsv },
+  { id: 'markdown', label: 'Markdown', extension: 'md', mimeType: 'text/markdown', serialize: serializeMarkdown, parse: parseMarkdown },
+  { id: 'todotxt', label: 'todo.txt', extension: 'txt', mimeType: 'text/plain', serialize: serializeTodoTxt, parse: parseTodoTxt },
+];
+
+/**
+ * Format for a file name, by extension
+ */
+export const formatForFile = (fileName: string): TaskFormat | undefined => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  return TASK_FORMATS.find(f => f.extension === extension || (f.id === 'markdown' && extension === 'markdown'));
+};
+
+/**
+ * Offer text as a file download
+ */
+export const downloadFile = (fileName: string, content: string, mimeType: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export { findDuplicates } from './fields';
+export type { ParseResult } from './fields';
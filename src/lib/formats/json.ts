@@ -0,0 +1,51 @@
+/**
+ * JSON Format
+ *
+ * Full-fidelity export: every task field except the owner, wrapped with a
+ * format version. Import also accepts a bare array of tasks.
+ */
+
+import { ImportedTask, Task } from '@/types';
+import { ParseResult, parseDate, toImportedTask } from './fields';
+
+const FORMAT_VERSION = 1;
+
+export const serializeJson = (tasks: Task[]): string =>
+  JSON.stringify({
+    version: FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    // The owner is implied by whoever imports the file
+    tasks: tasks.map(({ userId, ...task }) => task),
+  }, null, 2);
+
+export const parseJson = (text: string): ParseResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e) {
+    return { tasks: [], errors: [`Invalid JSON: ${e instanceof Error ? e.message : e}`] };
+  }
+
+  const entries = Array.isArray(parsed) ? parsed : (parsed as { tasks?: unknown })?.tasks;
+  if (!Array.isArray(entries)) return { tasks: [], errors: ['Expected a list of tasks'] };
+
+  const tasks: ImportedTask[] = [];
+  const errors: string[] = [];
+  entries.forEach((entry, index) => {
+    const task = toImportedTask(entry ?? {});
+    if (typeof task === 'string') {
+      errors.push(`Task ${index + 1}: ${task}`);
+      return;
+    }
+    // Keep the richer fields this app exports as they are
+    const { checklist, recurrence, categoryColor } = entry as Partial<Task>;
+    const until = parseDate(recurrence?.until);
+    tasks.push({
+      ...task,
+      categoryColor: categoryColor || undefined,
+      checklist: Array.isArray(checklist) ? checklist : undefined,
+      recurrence: recurrence?.frequency ? { ...recurrence, until } : undefined,
+    });
+  });
+  return { tasks, errors };
+};
@@ -0,0 +1,79 @@
+/**
+ * Markdown Checklist Format
+ *
+ * One task per list item, with its details written the way the quick-add
+ * input reads them, so exported lists import back:
+ *
+ *   - [ ] Pay rent due 2026-11-01 09:00 !high #Personal
+ *     Transfer from the joint account
+ *     - [x] Check balance
+ *
+ * Indented lines below an item are its description, and indented
+ * checkboxes its checklist.
+ */
+
+import { format } from 'date-fns';
+import { ChecklistItem, ImportedTask, Task } from '@/types';
+import { parseQuickAdd } from '@/lib/quickAdd';
+import { createChecklistItem, sortChecklist } from '@/lib/checklist';
+import { ParseResult } from './fields';
+
+const ITEM_PATTERN = /^[-*+]\s+\[([ xX])\]\s+(.*)$/;
+const CHILD_ITEM_PATTERN = /^\s+[-*+]\s+\[([ xX])\]\s+(.*)$/;
+
+const formatCategory = (name: string) => (/\s/.test(name) ? `#"${name}"` : `#${name}`);
+
+export const serializeMarkdown = (tasks: Task[]): string => {
+  const lines = ['# DoneZit tasks', ''];
+  tasks.forEach(task => {
+    const details = [
+      `due ${format(new Date(task.deadline), 'yyyy-MM-dd HH:mm')}`,
+      `!${task.priority}`,
+      task.category ? formatCategory(task.category) : '',
+    ].filter(Boolean).join(' ');
+    lines.push(`- [${task.status === 'completed' ? 'x' : ' '}] ${task.title} ${details}`);
+
+    task.description
+      .split('\n')
+      .filter(line => line.trim())
+      .forEach(line => lines.push(`  ${line}`));
+    sortChecklist(task.checklist).forEach(item => {
+      lines.push(`  - [${item.completed ? 'x' : ' '}] ${item.text}`);
+    });
+  });
+  return lines.join('\n') + '\n';
+};
+
+export const parseMarkdown = (text: string): ParseResult => {
+  const tasks: ImportedTask[] = [];
+  const descriptions: string[][] = [];
+  let current: ImportedTask | null = null;
+
+  text.split(/\r?\n/).forEach(line => {
+    const item = line.match(ITEM_PATTERN);
+    if (item) {
+      const { data } = parseQuickAdd(item[2]);
+      current = { ...data, status: item[1] === ' ' ? 'pending' : 'completed' };
+      tasks.push(current);
+      descriptions.push([]);
+      return;
+    }
+    if (!current || !/^\s+\S/.test(line)) return;
+
+    const child = line.match(CHILD_ITEM_PATTERN);
+    if (child) {
+      const checklist: ChecklistItem[] = current.checklist ?? [];
+      checklist.push({ ...createChecklistItem(child[2].trim(), checklist.length), completed: child[1] !== ' ' });
+      current.checklist = checklist;
+    } else {
+      descriptions[descriptions.length - 1].push(line.trim());
+    }
+  });
+
+  tasks.forEach((task, i) => {
+    task.description = descriptions[i].join('\n');
+  });
+  const valid = tasks.filter(task => task.title);
+  const errors = tasks.length > valid.length ? [`${tasks.length - valid.length} item(s) without a title were skipped`] : [];
+  return { tasks: valid, errors };
+};
@@ -0,0 +1,223 @@
+/**
+ * todo.txt Format
+ *
+ * One task per line, as described at github.com/todotxt/todo.txt:
+ *
+ *   (A) 2026-10-01 Pay rent +Personal due:2026-11-01
+ *   x 2026-10-19 2026-10-01 Call the bank +Personal due:2026-10-18 pri:B
+ *
+ * - priority (A)/(B)/(C) is high/medium/low; completed tasks keep it as `pri:`
+ * - `x` marks a completed task, followed by its completion and creation dates
+ * - the first trailing `+project` is the category
+ * - `due:YYYY-MM-DD` is the deadline, with `time:HHmm` unless it is the end of the day
+ *
+ * Fields todo.txt has no place for are written as extra tags: `desc:` for
+ * the description and `rec:`/`rrule:` for recurrence. Values are
+ * percent-encoded where they would contain spaces. With these, tasks created
+ * by the app read back with the same title, description, deadline, priority,
+ * status, category, recurrence and creation day. Checklists and reminders are
+ * not exported.
+ *
+ * Tags are only read from the end of a line, so `+words` inside a title stay
+ * part of it. A title ending in something tag-like ("Vote +1") gets a `\`
+ * before that word, which is removed again on import. @contexts have no
+ * field and are kept in the title.
+ */
+
+import { endOfDay, format } from 'date-fns';
+import { ImportedTask, Priority, RecurrenceFrequency, RecurrenceRule, Task } from '@/types';
+import { fromRRule, toRRule } from '@/lib/recurrence';
+import { ParseResult } from './fields';
+
+const PRIORITY_LETTERS: Record<Priority, string> = { high: 'A', medium: 'B', low: 'C' };
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const KNOWN_KEYS = ['due', 'time', 'pri', 'desc', 'rec', 'rrule'];
+
+// Short recurrence units, as used by the common `rec:` extension
+const REC_UNITS: Record<string, RecurrenceFrequency> = { d: 'daily', w: 'weekly', m: 'monthly', y: 'yearly' };
+
+// Keep tags free of spaces and make `%` unambiguous
+const encodeValue = (value: string) => value.replace(/[%\s]/g, c => encodeURIComponent(c));
+
+const decodeValue = (value: string) => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+const isTag = (token: string) => {
+  if (/^\+\S+$/.test(token)) return true;
+  const key = token.match(/^([a-z]+):\S+$/i)?.[1];
+  return Boolean(key && KNOWN_KEYS.includes(key.toLowerCase()));
+};
+
+const isContext = (token: string) => /^@\S+$/.test(token);
+
+/**
+ * Escape the tag-like word that would otherwise be read as the title's
+ * tags, and any word that already looks escaped
+ */
+const escapeTitle = (title: string): string => {
+  const tokens = title.split(' ');
+  let trailing = true;
+  for (let i = tokens.length - 1; i >= 0; i--) {
+    const token = tokens[i];
+    const bare = token.replace(/^\\+/, '');
+    if (bare !== token ? isTag(bare) : trailing && isTag(token)) {
+      tokens[i] = `\\${token}`;
+      trailing = false;
+    } else if (!isContext(token)) {
+      trailing = false;
+    }
+  }
+  return tokens.join(' ');
+};
+
+const unescapeToken = (token: string) => (token.startsWith('\\') && isTag(token.replace(/^\\+/, '')) ? token.slice(1) : token);
+
+const formatDay = (date: Date) => format(new Date(date), 'yyyy-MM-dd');
+
+const parseDay = (value: string) => new Date(`${value}T00:00`);
+
+const isEndOfDay = (date: Date) => {
+  const d = new Date(date);
+  return d.getHours() === 23 && d.getMinutes() === 59;
+};
+
+/**
+ * `rec:2w` for plain intervals, `rrule:` for anything with more detail
+ */
+const recurrenceTag = (rule: RecurrenceRule): string => {
+  const simple = !rule.byWeekday?.length && !rule.bySetPos && !rule.count && !rule.until;
+  if (!simple) return `rrule:${toRRule(rule)}`;
+  const unit = Object.keys(REC_UNITS).find(k => REC_UNITS[k] === rule.frequency);
+  return `rec:${Math.max(1, rule.interval || 1)}${unit}`;
+};
+
+const parseRec = (value: string): RecurrenceRule | undefined => {
+  // A leading `+` (strict recurrence) makes no difference here
+  const m = value.match(/^\+?(\d*)([dwmy])$/i);
+  if (!m) return undefined;
+  return { frequency: REC_UNITS[m[2].toLowerCase()], interval: Math.max(1, Number(m[1]) || 1) };
+};
+
+const serializeTask = (task: Task, exportedAt: Date): string => {
+  const completed = task.status === 'completed';
+  const parts: string[] = completed
+    // Tasks completed before completion times were recorded are dated by the export
+    ? ['x', formatDay(task.completedAt ?? exportedAt), formatDay(task.createdAt)]
+    : [`(${PRIORITY_LETTERS[task.priority]})`, formatDay(task.createdAt)];
+
+  parts.push(escapeTitle(task.title.replace(/\s+/g, ' ').trim()));
+  if (task.category) parts.push(`+${encodeValue(task.category)}`);
+  parts.push(`due:${formatDay(task.deadline)}`);
+  if (!isEndOfDay(task.deadline)) parts.push(`time:${format(new Date(task.deadline), 'HHmm')}`);
+  if (completed) parts.push(`pri:${PRIORITY_LETTERS[task.priority]}`);
+  if (task.description) parts.push(`desc:${encodeValue(task.description)}`);
+  if (task.recurrence) parts.push(recurrenceTag(task.recurrence));
+  return parts.join(' ');
+};
+
+export const serializeTodoTxt = (tasks: Task[]): string => {
+  const now = new Date();
+  return tasks.map(task => serializeTask(task, now)).join('\n') + '\n';
+};
+
+const priorityFromLetter = (letter?: string): Priority => {
+  if (!letter) return 'medium';
+  const upper = letter.toUpperCase();
+  return upper === 'A' ? 'high' : upper === 'B' ? 'medium' : 'low';
+};
+
+/**
+ * Parse one line, or return an error message
+ */
+const parseLine = (line: string): ImportedTask | string => {
+  const tokens = line.split(' ');
+  let index = 0;
+  const next = () => tokens[index];
+
+  const completed = next() === 'x';
+  let letter: string | undefined;
+  let createdAt: Date | undefined;
+
+  if (completed) {
+    index++;
+    // Completion date, then creation date
+    if (DATE_PATTERN.test(next() ?? '')) {
+      index++;
+      if (DATE_PATTERN.test(next() ?? '')) createdAt = parseDay(tokens[index++]);
+    }
+  } else {
+    const priority = next()?.match(/^\(([A-Z])\)$/);
+    if (priority) {
+      letter = priority[1];
+      index++;
+    }
+    if (DATE_PATTERN.test(next() ?? '')) createdAt = parseDay(tokens[index++]);
+  }
+
+  // Tags at the end of the line; @contexts among them stay in the title
+  let end = tokens.length;
+  const tags: Record<string, string> = {};
+  const contexts: string[] = [];
+  let project: string | undefined;
+  while (end > index) {
+    const token = tokens[end - 1];
+    if (!token) {
+      end--;
+    } else if (isContext(token)) {
+      contexts.unshift(token);
+      end--;
+    } else if (token.startsWith('+') && isTag(token)) {
+      project = decodeValue(token.slice(1));
+      end--;
+    } else if (isTag(token)) {
+      const [, key, value] = token.match(/^([a-z]+):(\S+)$/i)!;
+      tags[key.toLowerCase()] = value;
+      end--;
+    } else {
+      break;
+    }
+  }
+
+  const title = [...tokens.slice(index, end).map(unescapeToken), ...contexts].join(' ').trim();
+  if (!title) return 'Missing title';
+
+  let deadline = endOfDay(new Date());
+  if (tags.due && DATE_PATTERN.test(tags.due)) {
+    const time = tags.time?.match(/^(\d{2})(\d{2})$/);
+    deadline = time
+      ? new Date(parseDay(tags.due).setHours(Number(time[1]), Number(time[2]), 0, 0))
+      : endOfDay(parseDay(tags.due));
+  }
+
+  const recurrence = tags.rrule ? fromRRule(tags.rrule) ?? undefined : tags.rec ? parseRec(tags.rec) : undefined;
+
+  return {
+    title,
+    description: tags.desc ? decodeValue(tags.desc) : '',
+    deadline,
+    priority: priorityFromLetter(letter ?? tags.pri),
+    status: completed ? 'completed' : 'pending',
+    category: project,
+    createdAt,
+    recurrence,
+  };
+};
+
+export const parseTodoTxt = (text: string): ParseResult => {
+  const tasks: ImportedTask[] = [];
+  const errors: string[] = [];
+  text.split(/\r?\n/).forEach((line, i) => {
+    if (!line.trim()) return;
+    const task = parseLine(line.trim());
+    if (typeof task === 'string') errors.push(`Line ${i + 1}: ${task}`);
+    else tasks.push(task);
+  });
+  return { tasks, errors };
+};
@@ -0,0 +1,214 @@
+/**
+ * Markdown Subset
+ *
+ * Parses task descriptions into a small tree that components/Markdown
+ * renders as React elements, so no HTML from the text ever reaches the
+ * page. Supported: paragraphs, bullet and numbered lists, task-list
+ * checkboxes, fenced and inline code, emphasis, strong emphasis, links and
+ * bare URLs. Everything else is shown as typed. Links are only kept for
+ * http, https and mailto URLs.
+ */
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'em' | 'strong'; children: InlineNode[] }
+  | { type: 'link'; href: string; children: InlineNode[] };
+
+export interface ListItem {
+  // Set for task-list items ("- [ ]" / "- [x]")
+  checked?: boolean;
+  children: InlineNode[];
+}
+
+export type BlockNode =
+  // One entry per source line, shown with line breaks between them
+  | { type: 'paragraph'; lines: InlineNode[][] }
+  | { type: 'code'; text: string }
+  | { type: 'list'; ordered: boolean; start: number; items: ListItem[] };
+
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+const LINK = /^\[([^\]\n]+)\]\(([^)\s]+)\)/;
+// Trailing punctuation is left out, so "see https://example.com." works
+const BARE_URL = /^https?:\/\/[^\s<]*[^\s<.,:;!?"')\]]/;
+const LIST_ITEM = /^\s*([-*+]|(\d{1,9})[.)])\s+(.*)$/;
+const CHECKBOX = /^\[([ xX])\]\s+(.*)$/;
+const FENCE = /^\s*```/;
+
+/**
+ * The URL if it is safe to link to, otherwise null
+ */
+export const safeHref = (href: string): string | null => {
+  try {
+    return SAFE_PROTOCOLS.includes(new URL(href).protocol) ? href : null;
+  } catch {
+    return null;
+  }
+};
+
+const isWordChar = (char: string | undefined) => Boolean(char && /[\p{L}\p{N}]/u.test(char));
+
+/**
+ * Index of the marker closing emphasis opened at `from`, or -1. The
+ * emphasised text may not start or end with a space, and `_` only counts
+ * at word boundaries so snake_case stays as typed.
+ */
+const findClosing = (text: string, marker: string, from: number): number => {
+  const start = from + marker.length;
+  if (text[start] === undefined || text[start] === ' ') return -1;
+  if (marker[0] === '_' && isWordChar(text[from - 1])) return -1;
+
+  for (let i = text.indexOf(marker, start + 1); i !== -1; i = text.indexOf(marker, i + 1)) {
+    if (text[i - 1] === ' ') continue;
+    if (marker[0] === '_' && isWordChar(text[i + marker.length])) continue;
+    // "**" must not close single-star emphasis
+    if (marker === '*' && text[i + 1] === '*') {
+      i++;
+      continue;
+    }
+    return i;
+  }
+  return -1;
+};
+
+/**
+ * Parse one line of text into inline nodes
+ */
+export const parseInline = (text: string): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let buffer = '';
+
+  const flush = () => {
+    if (buffer) nodes.push({ type: 'text', text: buffer });
+    buffer = '';
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const rest = text.slice(i);
+    const char = text[i];
+
+    if (char === '\\' && /^[\\`*_[\]()]/.test(text[i + 1] ?? '')) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === '`') {
+      const end = text.indexOf('`', i + 1);
+      if (end > i + 1) {
+        flush();
+        nodes.push({ type: 'code', text: text.slice(i + 1, end) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    if (char === '[') {
+      const match = rest.match(LINK);
+      const href = match && safeHref(match[2]);
+      if (match && href) {
+        flush();
+        nodes.push({ type: 'link', href, children: parseInline(match[1]) });
+        i += match[0].length;
+        continue;
+      }
+    }
+
+    if (char === 'h' && !isWordChar(text[i - 1])) {
+      const match = rest.match(BARE_URL);
+      if (match && safeHref(match[0])) {
+        flush();
+        nodes.push({ type: 'link', href: match[0], children: [{ type: 'text', text: match[0] }] });
+        i += match[0].length;
+        continue;
+      }
+    }
+
+    if (char === '*' || char === '_') {
+      const marker = text[i + 1] === char ? char + char : char;
+      const end = findClosing(text, marker, i);
+      if (end !== -1) {
+        flush();
+        nodes.push({
+          type: marker.length === 2 ? 'strong' : 'em',
+          children: parseInline(text.slice(i + marker.length, end))
+        });
+        i = end + marker.length;
+        continue;
+      }
+      // Unmatched markers are kept as typed
+      buffer += marker;
+      i += marker.length;
+      continue;
+    }
+
+    buffer += char;
+    i++;
+  }
+
+  flush();
+  return nodes;
+};
+
+/**
+ * Parse a description into blocks
+ */
+export const parseMarkdownBlocks = (source: string): BlockNode[] => {
+  const blocks: BlockNode[] = [];
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  let paragraph: InlineNode[][] | null = null;
+  let list: Extract<BlockNode, { type: 'list' }> | null = null;
+
+  const closeParagraph = () => {
+    if (paragraph) blocks.push({ type: 'paragraph', lines: paragraph });
+    paragraph = null;
+  };
+  const closeList = () => {
+    if (list) blocks.push(list);
+    list = null;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (FENCE.test(line)) {
+      closeParagraph();
+      closeList();
+      const code: string[] = [];
+      // An unclosed fence runs to the end of the text
+      for (i++; i < lines.length && !FENCE.test(lines[i]); i++) code.push(lines[i]);
+      blocks.push({ type: 'code', text: code.join('\n') });
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      closeParagraph();
+      const ordered = item[2] !== undefined;
+      if (list && list.ordered !== ordered) closeList();
+      if (!list) list = { type: 'list', ordered, start: ordered ? Number(item[2]) : 1, items: [] };
+
+      const checkbox = item[3].match(CHECKBOX);
+      list.items.push(checkbox
+        ? { checked: checkbox[1] !== ' ', children: parseInline(checkbox[2]) }
+        : { children: parseInline(item[3]) });
+      continue;
+    }
+
+    if (!line.trim()) {
+      closeParagraph();
+      closeList();
+      continue;
+    }
+
+    closeList();
+    if (!paragraph) paragraph = [];
+    paragraph.push(parseInline(line.trim()));
+  }
+
+  closeParagraph();
+  closeList();
+  return blocks;
+};
@@ -0,0 +1,292 @@
+/**
+ * Task Query Language
+ *
+ * A small filter language typed into the search box or stored in saved
+ * views, e.g. `priority:high due:<7d category:Work -status:completed`.
+ *
+ * - `field:value` clauses, negated with a leading `-`
+ * - values may be quoted (`category:"Deep Work"`) or comma lists (`priority:high,medium`)
+ * - comparisons with `<`, `<=`, `>`, `>=` for priority and dates
+ * - dates are `today`, `tomorrow`, `YYYY-MM-DD` or relative (`3d`, `2w`, `1m`, `12h`);
+ *   relative `due` counts forward from now, relative `created` counts back (age),
+ *   and a bare relative value means "within" (`due:3d`)
+ * - anything else, including `word:` prefixes that are not a field name (such
+ *   as the `https:` of a pasted URL), is free text, matched like the search box
+ *
+ * Fields: priority (p), status (s), category (cat), due, created, has, is
+ */
+
+import { addDays, addHours, addMonths, addWeeks, addYears, endOfDay, startOfDay } from 'date-fns';
+import { Priority, Task } from '@/types';
+import { matchesQuery, tokenize } from '@/lib/search';
+import { isTaskOverdue } from '@/lib/deadlines';
+
+type Comparator = '<' | '<=' | '>' | '>=' | '=';
+
+interface FieldClause {
+  kind: 'field';
+  field: string;
+  op: Comparator;
+  values: string[];
+  negate: boolean;
+}
+
+interface TextClause {
+  kind: 'text';
+  text: string;
+  negate: boolean;
+}
+
+type Clause = FieldClause | TextClause;
+
+export interface ParsedQuery {
+  // Predicate combining every valid clause (all must match)
+  predicate: (task: Task, now?: Date) => boolean;
+  // Free-text part of the query, for highlighting
+  text: string;
+  errors: string[];
+}
+
+type Predicate = (task: Task, now: Date) => boolean;
+
+const FIELD_ALIASES: Record<string, string> = {
+  p: 'priority',
+  priority: 'priority',
+  s: 'status',
+  status: 'status',
+  c: 'category',
+  cat: 'category',
+  category: 'category',
+  due: 'due',
+  deadline: 'due',
+  created: 'created',
+  has: 'has',
+  is: 'is'
+};
+
+const PRIORITY_WEIGHT: Record<Priority, number> = { low: 1, medium: 2, high: 3 };
+
+const TOKEN_PATTERN = /(-?)([a-z]+):(<=|>=|<|>|=)?(?:"([^"]*)"|(\S*))|(-?)"([^"]*)"|(\S+)/gi;
+
+/**
+ * Split the input into clauses
+ */
+const tokenizeQuery = (input: string): Clause[] => {
+  const clauses: Clause[] = [];
+  for (const m of input.matchAll(TOKEN_PATTERN)) {
+    const [token, neg, field, op, quoted, bare, textNeg, quotedText, word] = m;
+    if (field !== undefined && !FIELD_ALIASES[field.toLowerCase()]) {
+      const negate = neg === '-';
+      clauses.push({ kind: 'text', text: negate ? token.slice(1) : token, negate });
+    } else if (field !== undefined) {
+      const value = quoted ?? bare ?? '';
+      clauses.push({
+        kind: 'field',
+        field: field.toLowerCase(),
+        op: (op as Comparator) || '=',
+        values: value.split(',').map(v => v.trim()).filter(Boolean),
+        negate: neg === '-'
+      });
+    } else if (quotedText !== undefined) {
+      clauses.push({ kind: 'text', text: quotedText, negate: textNeg === '-' });
+    } else if (word) {
+      const negate = word.startsWith('-') && word.length > 1;
+      clauses.push({ kind: 'text', text: negate ? word.slice(1) : word, negate });
+    }
+  }
+  return clauses;
+};
+
+const RELATIVE_PATTERN = /^(\d+)([hdwmy])$/i;
+
+/**
+ * Resolve a date value to the [start, end) span it covers.
+ * Relative spans are offsets from now, forwards or backwards.
+ */
+const resolveDate = (value: string, now: Date, direction: 1 | -1): { start: Date; end: Date } | null => {
+  const lower = value.toLowerCase();
+  if (lower === 'today' || lower === 'now') return { start: startOfDay(now), end: endOfDay(now) };
+  if (lower === 'tomorrow') {
+    const tomorrow = addDays(now, 1);
+    return { start: startOfDay(tomorrow), end: endOfDay(tomorrow) };
+  }
+  if (lower === 'yesterday') {
+    const yesterday = addDays(now, -1);
+    return { start: startOfDay(yesterday), end: endOfDay(yesterday) };
+  }
+
+  const relative = lower.match(RELATIVE_PATTERN);
+  if (relative) {
+    const amount = Number(relative[1]) * direction;
+    const add = { h: addHours, d: addDays, w: addWeeks, m: addMonths, y: addYears }[relative[2] as 'h' | 'd' | 'w' | 'm' | 'y'];
+    const point = add(now, amount);
+    return { start: point, end: point };
+  }
+
+  const absolute = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (absolute) {
+    const day = new Date(Number(absolute[1]), Number(absolute[2]) - 1, Number(absolute[3]));
+    return { start: startOfDay(day), end: endOfDay(day) };
+  }
+  return null;
+};
+
+const compareDate = (date: Date, op: Comparator, span: { start: Date; end: Date }) => {
+  const time = new Date(date).getTime();
+  switch (op) {
+    case '<': return time < span.start.getTime();
+    case '<=': return time <= span.end.getTime();
+    case '>': return time > span.end.getTime();
+    case '>=': return time >= span.start.getTime();
+    default: return time >= span.start.getTime() && time <= span.end.getTime();
+  }
+};
+
+const flip = (op: Comparator): Comparator =>
+  ({ '<': '>', '<=': '>=', '>': '<', '>=': '<=', '=': '=' } as const)[op];
+
+/**
+ * Build the predicate for one field clause, or return an error message
+ */
+const compileField = (clause: FieldClause): Predicate | string => {
+  const field = FIELD_ALIASES[clause.field];
+  if (!field) return `Unknown field "${clause.field}"`;
+  if (clause.values.length === 0) return `Missing value for "${clause.field}"`;
+
+  // Each listed value is an alternative; the clause matches if any does
+  const anyOf = (build: (value: string) => Predicate | string): Predicate | string => {
+    const predicates: Predicate[] = [];
+    for (const value of clause.values) {
+      const predicate = build(value);
+      if (typeof predicate === 'string') return predicate;
+      predicates.push(predicate);
+    }
+    return (task, now) => predicates.some(p => p(task, now));
+  };
+
+  switch (field) {
+    case 'priority':
+      return anyOf(value => {
+        const weight = PRIORITY_WEIGHT[value.toLowerCase() as Priority];
+        if (!weight) return `Unknown priority "${value}"`;
+        return task => {
+          const w = PRIORITY_WEIGHT[task.priority];
+          switch (clause.op) {
+            case '<': return w < weight;
+            case '<=': return w <= weight;
+            case '>': return w > weight;
+            case '>=': return w >= weight;
+            default: return w === weight;
+          }
+        };
+      });
+
+    case 'status':
+      return anyOf(value => {
+        switch (value.toLowerCase()) {
+          case 'pending':
+          case 'open':
+            return task => task.status === 'pending';
+          case 'completed':
+          case 'done':
+            return task => task.status === 'completed';
+          case 'overdue':
+            return isTaskOverdue;
+          default:
+            return `Unknown status "${value}"`;
+        }
+      });
+
+    case 'category':
+      return anyOf(value => {
+        const name = value.toLowerCase();
+        if (name === 'none') return task => !task.category;
+        return task => task.category?.toLowerCase() === name;
+      });
+
+    case 'due':
+    case 'created':
+      return anyOf(value => {
+        if (field === 'due' && value.toLowerCase() === 'overdue') return isTaskOverdue;
+        if (!resolveDate(value, new Date(), 1)) return `Invalid date "${value}"`;
+        const relative = RELATIVE_PATTERN.test(value);
+        // A bare relative value means "within": due:3d, created:7d
+        const base = relative && clause.op === '=' ? '<=' : clause.op;
+        // For ages ("created:<7d") a smaller age means a later date
+        const op = field === 'created' && relative ? flip(base) : base;
+        return (task, now) => {
+          const span = resolveDate(value, now, field === 'due' ? 1 : -1)!;
+          return compareDate(field === 'due' ? task.deadline : task.createdAt, op, span);
+        };
+      });
+
+    case 'has':
+      return anyOf(value => {
+        switch (value.toLowerCase()) {
+          case 'checklist':
+            return task => (task.checklist?.length ?? 0) > 0;
+          case 'description':
+            return task => Boolean(task.description?.trim());
+          case 'recurrence':
+          case 'repeat':
+            return task => Boolean(task.recurrence);
+          case 'category':
+            return task => Boolean(task.category);
+          default:
+            return `Unknown value "has:${value}"`;
+        }
+      });
+
+    case 'is':
+      return anyOf(value => {
+        switch (value.toLowerCase()) {
+          case 'overdue':
+            return isTaskOverdue;
+          case 'recurring':
+            return task => Boolean(task.recurrence);
+          case 'pending':
+          case 'open':
+            return task => task.status === 'pending';
+          case 'completed':
+          case 'done':
+            return task => task.status === 'completed';
+          default:
+            return `Unknown value "is:${value}"`;
+        }
+      });
+  }
+
+  return `Unknown field "${clause.field}"`;
+};
+
+/**
+ * Parse a query string into a task predicate
+ */
+export const parseQuery = (input: string): ParsedQuery => {
+  const errors: string[] = [];
+  const predicates: Predicate[] = [];
+  const textParts: string[] = [];
+
+  tokenizeQuery(input).forEach(clause => {
+    if (clause.kind === 'text') {
+      const tokens = tokenize(clause.text);
+      if (tokens.length === 0) return;
+      if (!clause.negate) textParts.push(clause.text);
+      predicates.push(task => matchesQuery(task, tokens) !== clause.negate);
+      return;
+    }
+
+    const compiled = compileField(clause);
+    if (typeof compiled === 'string') {
+      errors.push(compiled);
+      return;
+    }
+    predicates.push((task, now) => compiled(task, now) !== clause.negate);
+  });
+
+  return {
+    predicate: (task, now = new Date()) => predicates.every(p => p(task, now)),
+    text: textParts.join(' '),
+    errors
+  };
+};
@@ -0,0 +1,224 @@
+/**
+ * Quick-Add Parser
+ *
+ * Turns a single line such as "Pay rent tomorrow 9am !high #Personal" into
+ * task form data. Recognised pieces are removed from the title:
+ *
+ * - priority: `!high`, `!medium`, `!low` (or `!h`, `!m`, `!l`, `!!!`, `!!`, `!`)
+ * - category: `#Name` or `#"Two Words"`, matched to an existing category
+ *   ignoring case and accents; other names are reported as new
+ * - date: today, tonight, tomorrow, weekdays (`friday`, `next fri`),
+ *   `in 3 days`, `next week`, `next month`, `Oct 25`, `25 October`,
+ *   `2026-10-25`, `10/25`
+ * - time: `9am`, `9:30 pm`, `at 14`, `14:30`, noon, midnight, morning,
+ *   afternoon, evening
+ *
+ * A weekday only counts after `on`, `by`, `due`, `this` or `next`, or as the
+ * last word, so "Wed invitations" keeps its title. It means its next
+ * occurrence (today included); `next` skips a further week. Without a time
+ * the deadline is the end of the day, and a time alone means today, or
+ * tomorrow once that time has passed.
+ */
+
+import { addDays, addHours, addMinutes, addMonths, addWeeks, endOfDay, startOfDay, startOfMonth, startOfWeek } from 'date-fns';
+import { Category, Priority, TaskFormData } from '@/types';
+import { normalizeText } from '@/lib/search';
+
+export interface QuickAddResult {
+  data: TaskFormData;
+  // Whether the deadline and priority were given, rather than defaulted
+  hasDeadline: boolean;
+  hasPriority: boolean;
+  // Category name that does not exist yet
+  newCategory?: string;
+}
+
+const PRIORITIES: Record<string, Priority> = {
+  high: 'high', h: 'high', '!!': 'high',
+  medium: 'medium', med: 'medium', m: 'medium', '!': 'medium',
+  low: 'low', l: 'low', '': 'low',
+};
+
+const WEEKDAYS: Record<string, number> = {
+  sun: 0, sunday: 0,
+  mon: 1, monday: 1,
+  tue: 2, tues: 2, tuesday: 2,
+  wed: 3, wednesday: 3,
+  thu: 4, thur: 4, thurs: 4, thursday: 4,
+  fri: 5, friday: 5,
+  sat: 6, saturday: 6,
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const NUMBER_WORDS: Record<string, number> = { a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, ten: 10 };
+
+const NAMED_TIMES: Record<string, [number, number]> = {
+  noon: [12, 0],
+  midnight: [23, 59],
+  morning: [9, 0],
+  afternoon: [15, 0],
+  evening: [19, 0],
+  tonight: [20, 0],
+};
+
+// Words that only introduce a date or time ("due friday", "at 9am")
+const LEAD = String.raw`(?:(?:on|by|due|at|@)\s+)?`;
+const WEEKDAY_NAMES = Object.keys(WEEKDAYS).sort((a, b) => b.length - a.length).join('|');
+const MONTH_NAMES = String.raw`(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)`;
+const ORDINAL = String.raw`(\d{1,2})(?:st|nd|rd|th)?`;
+
+interface DateMatch {
+  day: Date;
+  // Some phrases imply a time as well ("tonight", "in 2 hours")
+  time?: [number, number];
+}
+
+type DateRule = [RegExp, (m: RegExpMatchArray, now: Date) => DateMatch | null];
+
+/**
+ * Resolve a month/day without a year to its next occurrence
+ */
+const upcoming = (month: number, day: number, year: string | undefined, now: Date): Date | null => {
+  if (month < 0 || month > 11 || day < 1 || day > 31) return null;
+  let fullYear = year ? Number(year.length === 2 ? `20${year}` : year) : now.getFullYear();
+  let date = new Date(fullYear, month, day);
+  if (!year && date < startOfDay(now)) date = new Date(++fullYear, month, day);
+  // Reject overflow such as Feb 31
+  return date.getMonth() === month ? date : null;
+};
+
+const DATE_RULES: DateRule[] = [
+  [new RegExp(String.raw`\b${LEAD}(today|tonight|tomorrow|tmrw|tmr)\b`, 'i'), (m, now) => {
+    const word = m[1].toLowerCase();
+    if (word === 'today') return { day: now };
+    if (word === 'tonight') return { day: now, time: NAMED_TIMES.tonight };
+    return { day: addDays(now, 1) };
+  }],
+  [new RegExp(String.raw`\bin\s+(\d+|an?|one|two|three|four|five|six|seven|ten)\s+(minutes?|mins?|hours?|hrs?|days?|weeks?|wks?|months?)\b`, 'i'), (m, now) => {
+    const amount = NUMBER_WORDS[m[1].toLowerCase()] ?? Number(m[1]);
+    const unit = m[2].toLowerCase();
+    if (unit.startsWith('min') || unit.startsWith('h')) {
+      const at = unit.startsWith('min') ? addMinutes(now, amount) : addHours(now, amount);
+      return { day: at, time: [at.getHours(), at.getMinutes()] };
+    }
+    if (unit.startsWith('d')) return { day: addDays(now, amount) };
+    if (unit.startsWith('w')) return { day: addWeeks(now, amount) };
+    return { day: addMonths(now, amount) };
+  }],
+  [new RegExp(String.raw`\bnext\s+(week|month)\b`, 'i'), (m, now) => (
+    m[1].toLowerCase() === 'week'
+      ? { day: addWeeks(startOfWeek(now, { weekStartsOn: 1 }), 1) }
+      : { day: addMonths(startOfMonth(now), 1) }
+  )],
+  [new RegExp(String.raw`\b(?:(?:on|by|due)\s+(?:(this|next)\s+)?|(this|next)\s+|(?=(?:${WEEKDAY_NAMES})\s*$))(${WEEKDAY_NAMES})\b`, 'i'), (m, now) => {
+    const target = WEEKDAYS[m[3].toLowerCase()];
+    let offset = (target - now.getDay() + 7) % 7;
+    if ((m[1] ?? m[2])?.toLowerCase() === 'next') offset += 7;
+    return { day: addDays(now, offset) };
+  }],
+  [new RegExp(String.raw`\b${LEAD}(\d{4})-(\d{2})-(\d{2})\b`, 'i'), m => {
+    const date = upcoming(Number(m[2]) - 1, Number(m[3]), m[1], new Date(0));
+    return date ? { day: date } : null;
+  }],
+  [new RegExp(String.raw`\b${LEAD}${MONTH_NAMES}\.?\s+${ORDINAL}(?:,?\s+(\d{4}))?\b`, 'i'), (m, now) => {
+    const date = upcoming(MONTHS.indexOf(m[1].slice(0, 3).toLowerCase()), Number(m[2]), m[3], now);
+    return date ? { day: date } : null;
+  }],
+  [new RegExp(String.raw`\b${LEAD}${ORDINAL}\s+(?:of\s+)?${MONTH_NAMES}(?:,?\s+(\d{4}))?\b`, 'i'), (m, now) => {
+    const date = upcoming(MONTHS.indexOf(m[2].slice(0, 3).toLowerCase()), Number(m[1]), m[3], now);
+    return date ? { day: date } : null;
+  }],
+  [new RegExp(String.raw`\b${LEAD}(\d{1,2})/(\d{1,2})(?:/(\d{2}|\d{4}))?\b`, 'i'), (m, now) => {
+    const date = upcoming(Number(m[1]) - 1, Number(m[2]), m[3], now);
+    return date ? { day: date } : null;
+  }],
+];
+
+type TimeRule = [RegExp, (m: RegExpMatchArray) => [number, number] | null];
+
+const validTime = (hours: number, minutes: number): [number, number] | null =>
+  hours >= 0 && hours < 24 && minutes >= 0 && minutes < 60 ? [hours, minutes] : null;
+
+const TIME_RULES: TimeRule[] = [
+  [new RegExp(String.raw`\b${LEAD}(\d{1,2})(?::(\d{2}))?\s*([ap])\.?m\.?(?=\s|$)`, 'i'), m => {
+    const hours = Number(m[1]);
+    if (hours < 1 || hours > 12) return null;
+    const pm = m[3].toLowerCase() === 'p';
+    return validTime((hours % 12) + (pm ? 12 : 0), Number(m[2] ?? 0));
+  }],
+  [new RegExp(String.raw`\b${LEAD}(\d{1,2}):(\d{2})\b`, 'i'), m => validTime(Number(m[1]), Number(m[2]))],
+  [/(?:\bat|@)\s*(\d{1,2})\b(?![:/])/i, m => validTime(Number(m[1]), 0)],
+  [new RegExp(String.raw`\b${LEAD}(?:in\s+the\s+)?(noon|midnight|morning|afternoon|evening)\b`, 'i'), m => NAMED_TIMES[m[1].toLowerCase()]],
+];
+
+/**
+ * Find the first rule that matches and remove its text from the input
+ */
+const extract = <T>(input: string, rules: [RegExp, (m: RegExpMatchArray) => T | null][]): [T | null, string] => {
+  for (const [pattern, resolve] of rules) {
+    const match = input.match(pattern);
+    if (!match) continue;
+    const value = resolve(match);
+    if (value === null) continue;
+    return [value, input.slice(0, match.index) + ' ' + input.slice(match.index! + match[0].length)];
+  }
+  return [null, input];
+};
+
+const categoryKey = (name: string) => normalizeText(name).replace(/[^\p{L}\p{N}]+/gu, '');
+
+/**
+ * Parse a quick-add line into task form data
+ */
+export const parseQuickAdd = (input: string, categories: Category[] = [], now: Date = new Date()): QuickAddResult => {
+  let rest = ` ${input} `;
+
+  // Priority
+  let priority: Priority | undefined;
+  rest = rest.replace(/\s!(!{0,2}|high|h|medium|med|m|low|l)(?=\s)/i, (_, level: string) => {
+    priority = PRIORITIES[level.toLowerCase()];
+    return ' ';
+  });
+
+  // Category
+  let categoryName: string | undefined;
+  rest = rest.replace(/\s#(?:"([^"]+)"|(\S+))(?=\s)/, (_, quoted: string | undefined, bare: string | undefined) => {
+    categoryName = (quoted ?? bare ?? '').trim();
+    return ' ';
+  });
+  const category = categoryName
+    ? categories.find(c => categoryKey(c.name) === categoryKey(categoryName!))
+    : undefined;
+
+  // Time, then date, so a weekday before a time ("friday 9am") is still last
+  const [explicitTime, withoutTime] = extract(rest, TIME_RULES);
+  const [date, withoutDate] = extract(withoutTime, DATE_RULES.map(([p, r]) => [p, (m: RegExpMatchArray) => r(m, now)]));
+  const time = explicitTime ?? date?.time ?? null;
+
+  let deadline: Date;
+  if (date) {
+    deadline = time ? new Date(new Date(date.day).setHours(time[0], time[1], 0, 0)) : endOfDay(date.day);
+  } else if (time) {
+    deadline = new Date(new Date(now).setHours(time[0], time[1], 0, 0));
+    if (deadline <= now) deadline = addDays(deadline, 1);
+  } else {
+    deadline = endOfDay(now);
+  }
+
+  const title = withoutDate.replace(/\s+/g, ' ').trim();
+
+  return {
+    data: {
+      title,
+      description: '',
+      deadline,
+      priority: priority ?? 'medium',
+      category: category?.name ?? categoryName,
+      categoryColor: category?.color,
+    },
+    hasDeadline: Boolean(date || time),
+    hasPriority: Boolean(priority),
+    newCategory: categoryName && !category ? categoryName : undefined,
+  };
+};
@@ -0,0 +1,216 @@
+/**
+ * Recurrence Rules
+ *
+ * Computes occurrences for RRULE-style recurrence rules:
+ * daily/weekly/monthly/yearly frequencies with an interval, optional
+ * weekdays ("every weekday", "Mon and Thu"), nth-weekday-of-month
+ * ("first Monday") and an end after N occurrences or on a date.
+ * Rules convert to and from RFC 5545 RRULE values for calendar files.
+ */
+
+import { addDays, addMonths, addYears, startOfWeek, endOfDay } from 'date-fns';
+import { RecurrenceFrequency, RecurrenceRule, Weekday } from '@/types';
+
+// Weekday codes in Date#getDay() order (Sunday = 0)
+export const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+  MO: 'Monday',
+  TU: 'Tuesday',
+  WE: 'Wednesday',
+  TH: 'Thursday',
+  FR: 'Friday',
+  SA: 'Saturday',
+  SU: 'Sunday'
+};
+
+const SET_POS_LABELS: Record<number, string> = {
+  1: 'first',
+  2: 'second',
+  3: 'third',
+  4: 'fourth',
+  [-1]: 'last'
+};
+
+const FREQUENCY_UNITS = {
+  daily: 'day',
+  weekly: 'week',
+  monthly: 'month',
+  yearly: 'year'
+};
+
+const weekdayOf = (date: Date): Weekday => WEEKDAYS[date.getDay()];
+
+/**
+ * Find the nth (or last, for -1) given weekday in the month of `date`,
+ * keeping the time of day. Returns null when the month has no such day.
+ */
+const nthWeekdayOfMonth = (date: Date, weekday: Weekday, setPos: number): Date | null => {
+  const target = WEEKDAYS.indexOf(weekday);
+  const matches: Date[] = [];
+  const cursor = new Date(date);
+  cursor.setDate(1);
+  while (cursor.getMonth() === date.getMonth()) {
+    if (cursor.getDay() === target) matches.push(new Date(cursor));
+    cursor.setDate(cursor.getDate() + 1);
+  }
+  return (setPos === -1 ? matches[matches.length - 1] : matches[setPos - 1]) ?? null;
+};
+
+/**
+ * Next matching date strictly after `from`, ignoring count/until limits
+ */
+const nextCandidate = (rule: RecurrenceRule, from: Date): Date => {
+  const interval = Math.max(1, rule.interval || 1);
+  const weekdays = rule.byWeekday ?? [];
+
+  switch (rule.frequency) {
+    case 'daily': {
+      let next = addDays(from, interval);
+      // e.g. "every weekday": skip days that are not in the set
+      for (let guard = 0; weekdays.length > 0 && !weekdays.includes(weekdayOf(next)) && guard < 366; guard++) {
+        next = addDays(next, interval);
+      }
+      return next;
+    }
+
+    case 'weekly': {
+      if (weekdays.length === 0) return addDays(from, 7 * interval);
+      // Remaining selected days later in the same week (weeks start on Monday)
+      const weekStart = startOfWeek(from, { weekStartsOn: 1 });
+      for (let day = 1; day < 7; day++) {
+        const candidate = addDays(from, day);
+        if (startOfWeek(candidate, { weekStartsOn: 1 }).getTime() !== weekStart.getTime()) break;
+        if (weekdays.includes(weekdayOf(candidate))) return candidate;
+      }
+      // Otherwise the first selected day of the next week in the interval
+      const nextWeekStart = addDays(weekStart, 7 * interval);
+      for (let day = 0; day < 7; day++) {
+        const candidate = addDays(nextWeekStart, day);
+        if (weekdays.includes(weekdayOf(candidate))) {
+          candidate.setHours(from.getHours(), from.getMinutes(), from.getSeconds(), from.getMilliseconds());
+          return candidate;
+        }
+      }
+      return addDays(from, 7 * interval);
+    }
+
+    case 'monthly':
+    case 'yearly': {
+      const step = (date: Date, n: number) =>
+        rule.frequency === 'monthly' ? addMonths(date, interval * n) : addYears(date, interval * n);
+      if (rule.bySetPos && weekdays.length > 0) {
+        // e.g. "first Monday of the month", searched month by month
+        for (let n = 0; n <= 12; n++) {
+          const match = nthWeekdayOfMonth(step(from, n), weekdays[0], rule.bySetPos);
+          if (match && match > from) return match;
+        }
+      }
+      return step(from, 1);
+    }
+  }
+};
+
+/**
+ * Compute the occurrence following `current`, or null once the rule ends
+ */
+export const getNextOccurrence = (rule: RecurrenceRule, current: Date): Date | null => {
+  if (rule.count !== undefined && rule.count !== null && rule.count <= 1) return null;
+
+  const next = nextCandidate(rule, new Date(current));
+  if (rule.until && next > endOfDay(new Date(rule.until))) return null;
+  return next;
+};
+
+/**
+ * Rule for the task that follows the current one: one occurrence fewer
+ * when the rule ends after a fixed count.
+ */
+export const advanceRule = (rule: RecurrenceRule): RecurrenceRule =>
+  rule.count ? { ...rule, count: rule.count - 1 } : rule;
+
+/**
+ * Human-readable summary, e.g. "Every 2 weeks on Mon, Thu"
+ */
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+  const interval = Math.max(1, rule.interval || 1);
+  const unit = FREQUENCY_UNITS[rule.frequency];
+  const weekdays = rule.byWeekday ?? [];
+  const dayNames = weekdays.map(d => WEEKDAY_LABELS[d].slice(0, 3));
+
+  let text = interval === 1 ? `Every ${unit}` : `Every ${interval} ${unit}s`;
+  if (rule.frequency === 'daily' && weekdays.length === 5 && !weekdays.includes('SA') && !weekdays.includes('SU')) {
+    text = 'Every weekday';
+  } else if (rule.bySetPos && weekdays.length > 0) {
+    text += ` on the ${SET_POS_LABELS[rule.bySetPos] ?? `${rule.bySetPos}th`} ${WEEKDAY_LABELS[weekdays[0]]}`;
+  } else if (weekdays.length > 0) {
+    text += ` on ${dayNames.join(', ')}`;
+  }
+
+  if (rule.count) text += `, ${rule.count} occurrence${rule.count === 1 ? '' : 's'} left`;
+  if (rule.until) text += `, until ${new Date(rule.until).toLocaleDateString()}`;
+  return text;
+};
+
+const FREQUENCIES: RecurrenceFrequency[] = ['daily', 'weekly', 'monthly', 'yearly'];
+
+// UTC date-time in RFC 5545 basic format, e.g. 20261231T235959Z
+const formatUtc = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const parseRRuleDate = (value: string): Date | undefined => {
+  const m = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!m) return undefined;
+  const [, y, mo, d, h = '0', mi = '0', s = '0', utc] = m;
+  const parts = [Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi), Number(s)] as const;
+  return utc ? new Date(Date.UTC(...parts)) : new Date(...parts);
+};
+
+/**
+ * RRULE value for a rule, e.g. "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH"
+ */
+export const toRRule = (rule: RecurrenceRule): string => {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`];
+  const interval = Math.max(1, rule.interval || 1);
+  if (interval > 1) parts.push(`INTERVAL=${interval}`);
+  if (rule.byWeekday?.length) parts.push(`BYDAY=${rule.byWeekday.join(',')}`);
+  if (rule.bySetPos) parts.push(`BYSETPOS=${rule.bySetPos}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  // UNTIL is inclusive of the whole last day, as in getNextOccurrence
+  if (rule.until) parts.push(`UNTIL=${formatUtc(endOfDay(new Date(rule.until)))}`);
+  return parts.join(';');
+};
+
+/**
+ * Parse an RRULE value (with or without the "RRULE:" prefix). Returns null
+ * for frequencies the app cannot repeat (hourly and finer).
+ * "BYDAY=1MO" is read as the first Monday, like BYDAY=MO;BYSETPOS=1.
+ */
+export const fromRRule = (value: string): RecurrenceRule | null => {
+  const params = new Map(
+    value.replace(/^RRULE:/i, '').split(';').map(part => {
+      const [key, ...rest] = part.split('=');
+      return [key.trim().toUpperCase(), rest.join('=').trim()] as const;
+    })
+  );
+
+  const frequency = params.get('FREQ')?.toLowerCase() as RecurrenceFrequency;
+  if (!FREQUENCIES.includes(frequency)) return null;
+
+  const rule: RecurrenceRule = { frequency, interval: Math.max(1, Number(params.get('INTERVAL')) || 1) };
+
+  const byDay = params.get('BYDAY');
+  if (byDay) {
+    const days = byDay.toUpperCase().split(',').map(d => d.match(/^([+-]?\d+)?(MO|TU|WE|TH|FR|SA|SU)$/)).filter(Boolean);
+    if (days.length > 0) rule.byWeekday = days.map(d => d![2] as Weekday);
+    const position = days.find(d => d![1])?.[1];
+    if (position) rule.bySetPos = Number(position);
+  }
+  const setPos = Number(params.get('BYSETPOS'));
+  if (setPos) rule.bySetPos = setPos;
+  const count = Number(params.get('COUNT'));
+  if (count > 0) rule.count = count;
+  const until = params.get('UNTIL') && parseRRuleDate(params.get('UNTIL')!);
+  if (until) rule.until = until;
+
+  return rule;
+};
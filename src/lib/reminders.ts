@@ -0,0 +1,72 @@
+/**
+ * Reminder Helpers
+ *
+ * Reminders are stored on the task as an offset before the deadline.
+ * A reminder is due once its time has come, until it has fired; snoozing
+ * moves its time and clears `firedAt` so it fires again.
+ */
+
+import { Task, TaskReminder } from '@/types';
+import { generateId } from '@/lib/utils';
+
+export const REMINDER_PRESETS: { minutes: number; label: string }[] = [
+  { minutes: 10, label: '10 min' },
+  { minutes: 60, label: '1 hour' },
+  { minutes: 24 * 60, label: '1 day' },
+];
+
+export const SNOOZE_MINUTES = 10;
+
+// Reminders further in the past than this are skipped instead of shown late
+const STALE_AFTER_MS = 24 * 60 * 60 * 1000;
+
+export interface ScheduledReminder {
+  task: Task;
+  reminder: TaskReminder;
+  at: Date;
+}
+
+export const createReminder = (minutesBefore: number): TaskReminder => ({
+  id: generateId(),
+  minutesBefore
+});
+
+/**
+ * When a reminder should fire
+ */
+export const reminderTime = (task: Task, reminder: TaskReminder): Date =>
+  reminder.snoozedUntil
+    ? new Date(reminder.snoozedUntil)
+    : new Date(new Date(task.deadline).getTime() - reminder.minutesBefore * 60 * 1000);
+
+/**
+ * Reminders of pending tasks that have not fired yet, soonest first
+ */
+export const scheduledReminders = (tasks: Task[], now: Date = new Date()): ScheduledReminder[] =>
+  tasks
+    .filter(task => task.status === 'pending')
+    .flatMap(task => (task.reminders ?? [])
+      .filter(reminder => !reminder.firedAt)
+      .map(reminder => ({ task, reminder, at: reminderTime(task, reminder) })))
+    .filter(({ at }) => now.getTime() - at.getTime() < STALE_AFTER_MS)
+    .sort((a, b) => a.at.getTime() - b.at.getTime());
+
+/**
+ * "10 min before", "2 hours before", "1 day before"
+ */
+export const describeReminder = (minutesBefore: number): string => {
+  const preset = REMINDER_PRESETS.find(p => p.minutes === minutesBefore);
+  if (preset) return `${preset.label} before`;
+  if (minutesBefore === 0) return 'At deadline';
+
+  const units: [number, string][] = [[7 * 24 * 60, 'week'], [24 * 60, 'day'], [60, 'hour'], [1, 'min']];
+  const [size, unit] = units.find(([size]) => minutesBefore % size === 0)!;
+  const amount = minutesBefore / size;
+  return `${amount} ${unit}${amount === 1 || unit === 'min' ? '' : 's'} before`;
+};
+
+/**
+ * Notification tag shared by the page and the service worker, so the same
+ * reminder shown by both replaces itself instead of stacking
+ */
+export const reminderTag = (taskId: string, reminderId: string) => `reminder-${taskId}-${reminderId}`;
@@ -0,0 +1,146 @@
+/**
+ * Task Search
+ *
+ * Tokenized, accent-insensitive and typo-tolerant matching over a task's
+ * title, description, category and checklist items. Every query token must
+ * match somewhere in the task; a token matches a word when it is a
+ * substring of it, or within a small edit distance for longer tokens.
+ */
+
+import { Task } from '@/types';
+
+// [start, end) offsets into the original text
+export type MatchRange = [number, number];
+
+interface Word {
+  text: string;
+  start: number;
+}
+
+/**
+ * Normalize text for comparison, keeping a map from every normalized
+ * character back to its index in the original string.
+ */
+const normalizeWithMap = (text: string): { normalized: string; map: number[] } => {
+  let normalized = '';
+  const map: number[] = [];
+  // Walk UTF-16 code units so offsets line up with String#slice
+  for (let i = 0; i < text.length; i++) {
+    const folded = text[i].normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+    for (const c of folded) {
+      normalized += c;
+      map.push(i);
+    }
+  }
+  return { normalized, map };
+};
+
+export const normalizeText = (text: string): string => normalizeWithMap(text).normalized;
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Split a query into normalized tokens
+ */
+export const tokenize = (text: string): string[] =>
+  normalizeText(text).match(WORD_PATTERN) ?? [];
+
+/**
+ * Damerau-Levenshtein (optimal string alignment) distance, giving up once
+ * it exceeds `max`.
+ */
+const editDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  const rows: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i]);
+  for (let j = 1; j <= b.length; j++) rows[0][j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    let rowMin = Infinity;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, rows[i][j]);
+    }
+    if (rowMin > max) return max + 1;
+  }
+  return rows[a.length][b.length];
+};
+
+// Typos allowed for a query token of the given length
+const allowedTypos = (length: number) => (length >= 8 ? 2 : length >= 4 ? 1 : 0);
+
+/**
+ * Where `token` matches `word`, relative to the start of the word
+ */
+const matchToken = (token: string, word: string): MatchRange | null => {
+  const index = word.indexOf(token);
+  if (index !== -1) return [index, index + token.length];
+
+  const typos = allowedTypos(token.length);
+  if (typos === 0) return null;
+  // Compare against the whole word and against prefixes of similar
+  // length, so "meetng" finds "meetings"
+  const candidates = [word, word.slice(0, token.length), word.slice(0, token.length + 1)];
+  return candidates.some(candidate => editDistance(token, candidate, typos) <= typos)
+    ? [0, word.length]
+    : null;
+};
+
+const wordsOf = (normalized: string): Word[] =>
+  Array.from(normalized.matchAll(WORD_PATTERN), m => ({
+    text: m[0],
+    start: m.index ?? 0
+  }));
+
+/**
+ * Ranges of `text` matched by any of the query tokens
+ */
+export const findMatches = (text: string, tokens: string[]): MatchRange[] => {
+  if (!text || tokens.length === 0) return [];
+  const { normalized, map } = normalizeWithMap(text);
+  const ranges: MatchRange[] = [];
+
+  wordsOf(normalized).forEach(word => {
+    tokens.forEach(token => {
+      const match = matchToken(token, word.text);
+      if (!match) return;
+      const start = map[word.start + match[0]];
+      const end = map[word.start + match[1] - 1] + 1;
+      ranges.push([start, end]);
+    });
+  });
+
+  // Merge overlapping ranges so highlights do not nest
+  ranges.sort((a, b) => a[0] - b[0]);
+  return ranges.reduce<MatchRange[]>((merged, range) => {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([...range]);
+    }
+    return merged;
+  }, []);
+};
+
+/**
+ * Searchable text fields of a task
+ */
+const searchableText = (task: Task): string[] => [
+  task.title,
+  task.description,
+  task.category ?? '',
+  ...(task.checklist ?? []).map(item => item.text)
+];
+
+/**
+ * Whether every token of the query matches somewhere in the task
+ */
+export const matchesQuery = (task: Task, tokens: string[]): boolean => {
+  if (tokens.length === 0) return true;
+  const words = searchableText(task).flatMap(text => wordsOf(normalizeText(text)).map(w => w.text));
+  return tokens.every(token => words.some(word => matchToken(token, word)));
+};
@@ -0,0 +1,95 @@
+/**
+ * Task Sorting
+ *
+ * Sort strategies selectable from the dashboard. Every strategy keeps
+ * pending tasks above completed ones and breaks ties by creation time, so
+ * the order is stable between renders. `smart` is the original ordering
+ * (priority, then nearest deadline, then oldest first).
+ */
+
+import { Priority, SortDirection, SortPreference, SortStrategy, Task } from '@/types';
+
+// Priority weight for sorting (higher = more important)
+export const PRIORITY_WEIGHT: Record<Priority, number> = {
+  high: 3,
+  medium: 2,
+  low: 1
+};
+
+// Days until a task's urgency halves; see urgencyScore
+const URGENCY_HALF_LIFE_DAYS = 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_SORT: SortPreference = { strategy: 'smart', direction: 'asc' };
+
+type Comparator = (a: Task, b: Task, now: Date) => number;
+
+const time = (date: Date) => new Date(date).getTime();
+
+/**
+ * Weighted urgency combining priority and time to deadline: the priority
+ * weight doubles for every URGENCY_HALF_LIFE_DAYS closer the deadline gets,
+ * and keeps growing once it has passed (capped at 30 days overdue).
+ */
+export const urgencyScore = (task: Task, now: Date = new Date()): number => {
+  const daysLeft = Math.max((time(task.deadline) - now.getTime()) / DAY_MS, -30);
+  return PRIORITY_WEIGHT[task.priority] * Math.pow(2, -daysLeft / URGENCY_HALF_LIFE_DAYS);
+};
+
+const smart: Comparator = (a, b) => {
+  // Completed tasks: most recently completed first (tasks completed before
+  // completedAt was recorded fall back to their creation time)
+  if (a.status === 'completed') return time(b.completedAt ?? b.createdAt) - time(a.completedAt ?? a.createdAt);
+  const priorityDiff = PRIORITY_WEIGHT[b.priority] - PRIORITY_WEIGHT[a.priority];
+  if (priorityDiff !== 0) return priorityDiff;
+  return time(a.deadline) - time(b.deadline);
+};
+
+// Comparators in ascending order of the sorted value
+const COMPARATORS: Record<SortStrategy, Comparator> = {
+  smart,
+  deadline: (a, b) => time(a.deadline) - time(b.deadline),
+  priority: (a, b) => PRIORITY_WEIGHT[a.priority] - PRIORITY_WEIGHT[b.priority],
+  created: (a, b) => time(a.createdAt) - time(b.createdAt),
+  alphabetical: (a, b) => a.title.localeCompare(b.title, undefined, { sensitivity: 'base', numeric: true }),
+  // Tasks never moved by hand come after the others, in creation order
+  manual: (a, b) => {
+    if (a.sortOrder === b.sortOrder) return 0;
+    if (!a.sortOrder) return 1;
+    if (!b.sortOrder) return -1;
+    return a.sortOrder < b.sortOrder ? -1 : 1;
+  },
+  urgency: (a, b, now) => urgencyScore(a, now) - urgencyScore(b, now)
+};
+
+export const SORT_OPTIONS: { value: SortStrategy; label: string; defaultDirection: SortDirection }[] = [
+  { value: 'smart', label: 'Smart', defaultDirection: 'asc' },
+  { value: 'urgency', label: 'Urgency', defaultDirection: 'desc' },
+  { value: 'deadline', label: 'Deadline', defaultDirection: 'asc' },
+  { value: 'priority', label: 'Priority', defaultDirection: 'desc' },
+  { value: 'created', label: 'Created', defaultDirection: 'desc' },
+  { value: 'alphabetical', label: 'Title', defaultDirection: 'asc' },
+  { value: 'manual', label: 'Manual', defaultDirection: 'asc' },
+];
+
+/**
+ * Sort tasks by the given strategy and direction
+ */
+export const sortTasks = (tasks: Task[], { strategy, direction }: SortPreference = DEFAULT_SORT): Task[] => {
+  const compare = COMPARATORS[strategy] ?? smart;
+  const sign = direction === 'desc' ? -1 : 1;
+  const now = new Date();
+
+  return [...tasks].sort((a, b) => {
+    // Completed tasks always go to the bottom
+    if (a.status !== b.status) {
+      return a.status === 'completed' ? 1 : -1;
+    }
+
+    const diff = compare(a, b, now) * sign;
+    if (diff !== 0) return diff;
+
+    // Ties: oldest first
+    return time(a.createdAt) - time(b.createdAt);
+  });
+};
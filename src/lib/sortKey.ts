@@ -0,0 +1,104 @@
+/**
+ * Fractional Sort Keys
+ *
+ * Manual task order is stored as a string key per task. Keys are base-62
+ * fractions (digits after the point, no trailing zeros) compared as plain
+ * strings, so a task can always be placed between two others by writing a
+ * single new key, without renumbering the rest of the list.
+ */
+
+const DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+const BASE = DIGITS.length;
+
+/**
+ * Fraction strictly between `a` and `b`, where `b` is null for 1
+ */
+const midpoint = (a: string, b: string | null): string => {
+  if (b !== null) {
+    // Shared leading digits carry over unchanged
+    let n = 0;
+    while ((a[n] ?? '0') === b[n]) n++;
+    if (n > 0) return b.slice(0, n) + midpoint(a.slice(n), b.slice(n));
+  }
+
+  const digitA = a ? DIGITS.indexOf(a[0]) : 0;
+  const digitB = b !== null ? DIGITS.indexOf(b[0]) : BASE;
+  if (digitB - digitA > 1) {
+    return DIGITS[Math.round((digitA + digitB) / 2)];
+  }
+  // Neighbouring digits: b's first digit alone is enough if b continues
+  if (b !== null && b.length > 1) return b.slice(0, 1);
+  return DIGITS[digitA] + midpoint(a.slice(1), null);
+};
+
+/**
+ * Key that sorts between `before` and `after`; either may be null for the
+ * start or end of the list
+ */
+export const keyBetween = (before: string | null, after: string | null): string => {
+  if (before !== null && after !== null && before >= after) {
+    throw new Error(`Sort key "${before}" is not before "${after}"`);
+  }
+
+  // At either end, step a single digit instead of halving, so keys for
+  // items appended or prepended one by one stay short
+  if (before !== null && after === null) {
+    const i = [...before].findIndex(c => DIGITS.indexOf(c) < BASE - 1);
+    if (i !== -1) return before.slice(0, i) + DIGITS[DIGITS.indexOf(before[i]) + 1];
+  }
+  if (before === null && after !== null) {
+    const i = [...after].findIndex(c => DIGITS.indexOf(c) > 1);
+    if (i !== -1) return after.slice(0, i) + DIGITS[DIGITS.indexOf(after[i]) - 1];
+  }
+  return midpoint(before ?? '', after);
+};
+
+/**
+ * `count` evenly spaced keys for a list that has none yet
+ */
+export const spacedKeys = (count: number): string[] => {
+  let length = 1;
+  while (Math.pow(BASE, length) <= count) length++;
+  const span = Math.pow(BASE, length);
+
+  return Array.from({ length: count }, (_, i) => {
+    let value = Math.floor(((i + 1) * span) / (count + 1));
+    let key = '';
+    for (let d = 0; d < length; d++) {
+      key = DIGITS[value % BASE] + key;
+      value = Math.floor(value / BASE);
+    }
+    return key.replace(/0+$/, '');
+  });
+};
+
+/**
+ * New sort keys after `movedId` was dropped at its position in `orderedIds`,
+ * given the current keys. Normally only the moved item changes; if its
+ * neighbours have no keys yet, or are out of order, the whole list is
+ * renumbered. Returns only the keys that changed.
+ */
+export const reorderKeys = (
+  orderedIds: string[],
+  movedId: string,
+  currentKeys: Map<string, string | undefined>
+): Map<string, string> => {
+  const changes = new Map<string, string>();
+  const index = orderedIds.indexOf(movedId);
+  if (index === -1) return changes;
+
+  const others = orderedIds.filter(id => id !== movedId).map(id => currentKeys.get(id));
+  const othersOrdered = others.every((key, i) => key && (i === 0 || others[i - 1]! < key));
+
+  if (othersOrdered) {
+    const before = index > 0 ? currentKeys.get(orderedIds[index - 1])! : null;
+    const after = index < orderedIds.length - 1 ? currentKeys.get(orderedIds[index + 1])! : null;
+    changes.set(movedId, keyBetween(before, after));
+    return changes;
+  }
+
+  spacedKeys(orderedIds.length).forEach((key, i) => {
+    if (currentKeys.get(orderedIds[i]) !== key) changes.set(orderedIds[i], key);
+  });
+  return changes;
+};
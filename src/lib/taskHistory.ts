@@ -0,0 +1,86 @@
+/**
+ * Task Change History
+ *
+ * Edits made through updateTask, toggleTaskStatus and checklist toggles
+ * append one entry per changed field to the task's `changes`. Values are
+ * stored as strings: dates as ISO strings, and structured fields
+ * (recurrence, checklist, reminders) as the summary the user sees, so
+ * documents stay small and old entries stay readable.
+ */
+
+import { format } from 'date-fns';
+import { Task, TaskChange } from '@/types';
+import { describeRecurrence } from '@/lib/recurrence';
+import { describeReminder } from '@/lib/reminders';
+
+// Entries kept per task; older ones are dropped
+export const TASK_CHANGE_LIMIT = 50;
+
+export const FIELD_LABELS: Partial<Record<keyof Task, string>> = {
+  title: 'Title',
+  description: 'Description',
+  deadline: 'Deadline',
+  priority: 'Priority',
+  status: 'Status',
+  category: 'Category',
+  recurrence: 'Repeat',
+  checklist: 'Checklist',
+  reminders: 'Reminders'
+};
+
+const TRACKED_FIELDS = Object.keys(FIELD_LABELS) as (keyof Task)[];
+
+/**
+ * Stored form of a field's value; null when the field is empty
+ */
+const summarize = (task: Partial<Task>, field: keyof Task): string | null => {
+  switch (field) {
+    case 'deadline':
+      return task.deadline ? new Date(task.deadline).toISOString() : null;
+    case 'recurrence':
+      return task.recurrence ? describeRecurrence(task.recurrence) : null;
+    case 'checklist': {
+      const items = task.checklist ?? [];
+      if (items.length === 0) return null;
+      return `${items.filter(item => item.completed).length}/${items.length} done`;
+    }
+    case 'reminders': {
+      // Firing or snoozing a reminder leaves this unchanged, so it is not logged
+      const reminders = task.reminders ?? [];
+      return reminders.length > 0 ? reminders.map(r => describeReminder(r.minutesBefore)).join(', ') : null;
+    }
+    default: {
+      const value = task[field];
+      return value === undefined || value === null || value === '' ? null : String(value);
+    }
+  }
+};
+
+/**
+ * History entries for the fields `updates` changes on `before`
+ */
+export const diffTask = (before: Task, updates: Partial<Task>, changedAt: Date = new Date()): TaskChange[] =>
+  TRACKED_FIELDS
+    .filter(field => field in updates)
+    .map(field => ({ field, oldValue: summarize(before, field), newValue: summarize(updates, field), changedAt }))
+    .filter(change => change.oldValue !== change.newValue);
+
+/**
+ * `updates` with the resulting history entries appended to the task's
+ * `changes`; unchanged when nothing tracked changed
+ */
+export const withChanges = (before: Task | undefined, updates: Partial<Task>, changedAt: Date = new Date()): Partial<Task> => {
+  if (!before) return updates;
+  const changes = diffTask(before, updates, changedAt);
+  if (changes.length === 0) return updates;
+  return { ...updates, changes: [...(before.changes ?? []), ...changes].slice(-TASK_CHANGE_LIMIT) };
+};
+
+/**
+ * Display text for a stored value
+ */
+export const formatChangeValue = (field: keyof Task, value: string | null): string => {
+  if (value === null) return 'none';
+  if (field === 'deadline') return format(new Date(value), 'MMM d, yyyy h:mm a');
+  return value;
+};
@@ -0,0 +1,37 @@
+/**
+ * Trash Helpers
+ *
+ * Deleted tasks keep a `deletedAt` date and stay in the trash until they
+ * are restored, deleted for good, or purged once the retention period
+ * (a user preference, in days) has passed.
+ */
+
+import { addDays } from 'date-fns';
+import { Task } from '@/types';
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+// 0 keeps trashed tasks until they are deleted by hand
+export const TRASH_RETENTION_OPTIONS: { days: number; label: string }[] = [
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 0, label: 'Never' },
+];
+
+export const isTrashed = (task: Task): boolean => Boolean(task.deletedAt);
+
+/**
+ * When a trashed task will be purged, or null when it is kept
+ */
+export const purgeDate = (task: Task, retentionDays: number): Date | null =>
+  task.deletedAt && retentionDays > 0 ? addDays(new Date(task.deletedAt), retentionDays) : null;
+
+/**
+ * Trashed tasks whose retention period is over
+ */
+export const tasksToPurge = (tasks: Task[], retentionDays: number, now: Date = new Date()): Task[] =>
+  tasks.filter(task => {
+    const at = purgeDate(task, retentionDays);
+    return at !== null && at <= now;
+  });
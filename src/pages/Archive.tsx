@@ -0,0 +1,199 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Navigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Archive, ArchiveRestore, Loader2, Trash2 } from 'lucide-react';
+import { useAuthContext } from '@/contexts/AuthContext';
+import { useTasksContext } from '@/contexts/TasksContext';
+import { useCategories } from '@/hooks/useCategories';
+import { useToast } from '@/hooks/use-toast';
+import { Task } from '@/types';
+import { ARCHIVE_AFTER_OPTIONS, completedOn } from '@/lib/archive';
+import { categoryBadgeStyle } from '@/lib/categories';
+import { parseQuery } from '@/lib/query';
+import TopNav from '@/components/TopNav';
+import VideoBg from '@/components/VideoBg';
+import { SearchBar } from '@/components/SearchBar';
+import { Highlight } from '@/components/Highlight';
+import { Button } from '@/components/ui/button';
+import { ToastAction } from '@/components/ui/toast';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+const ArchivePage: React.FC = () => {
+  const { user, loading } = useAuthContext();
+  const { toast } = useToast();
+
+  const {
+    tasks,
+    unarchiveTask,
+    archiveTask,
+    archiveCompleted,
+    deleteTask,
+    loadArchivedTasks,
+    reassignCategory,
+    preferences,
+    updatePreferences,
+  } = useTasksContext();
+  const { getCategoryColor } = useCategories(user?.uid || null, reassignCategory);
+
+  const [archived, setArchived] = useState<Task[] | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+
+  // Archived tasks are not part of the realtime list, so they are fetched here
+  const refresh = useCallback(() => {
+    loadArchivedTasks()
+      .then(setArchived)
+      .catch(err => {
+        console.error('Failed to load archived tasks:', err);
+        setArchived([]);
+        toast({ title: 'Could not load the archive', description: err?.message, variant: 'destructive' });
+      });
+  }, [loadArchivedTasks, toast]);
+
+  useEffect(() => {
+    if (user) refresh();
+  }, [user, refresh]);
+
+  const parsedSearch = useMemo(() => parseQuery(searchQuery), [searchQuery]);
+  const visible = useMemo(
+    () => (archived ?? [])
+      .filter(task => parsedSearch.predicate(task))
+      .sort((a, b) => completedOn(b).getTime() - completedOn(a).getTime()),
+    [archived, parsedSearch]
+  );
+
+  const completedCount = tasks.filter(t => t.status === 'completed').length;
+
+  const removeLocally = (id: string) => setArchived(prev => prev?.filter(t => t.id !== id) ?? prev);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) return <Navigate to="/" replace />;
+
+  return (
+    <div className="min-h-screen bg-transparent relative">
+      <VideoBg />
+      <TopNav />
+
+      <main className="relative z-10 container mx-auto px-4 py-6 space-y-4 max-w-3xl">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <h1 className="text-2xl font-bold text-foreground flex items-center gap-2">
+            <Archive className="w-6 h-6" /> Archive
+          </h1>
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground">Archive completed after</span>
+            <Select
+              value={String(preferences.archiveAfterDays)}
+              onValueChange={value => updatePreferences({ archiveAfterDays: Number(value) })}
+            >
+              <SelectTrigger className="h-9 w-28 rounded-full bg-card" aria-label="Archive completed tasks after">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ARCHIVE_AFTER_OPTIONS.map(option => (
+                  <SelectItem key={option.days} value={String(option.days)}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={completedCount === 0}
+              onClick={() => {
+                const added = archiveCompleted();
+                // Shown right away, whether or not the writes have landed yet
+                const ids = new Set(added.map(t => t.id));
+                setArchived(prev => (prev ? [...prev.filter(t => !ids.has(t.id)), ...added] : prev));
+                toast({ title: `Archived ${added.length} completed task${added.length === 1 ? '' : 's'}` });
+              }}
+            >
+              Archive completed now
+            </Button>
+          </div>
+        </div>
+
+        <SearchBar value={searchQuery} onChange={setSearchQuery} errors={parsedSearch.errors} />
+
+        {archived === null ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : visible.length === 0 ? (
+          <p className="text-center py-12 text-muted-foreground">
+            {searchQuery ? `No archived tasks match "${searchQuery}"` : 'Nothing archived yet'}
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {visible.map(task => (
+              <li key={task.id} className="bg-card rounded-xl border p-4 flex items-center justify-between gap-3">
+                <div className="min-w-0 space-y-1">
+                  <p className="font-medium text-foreground truncate">
+                    <Highlight text={task.title} query={parsedSearch.text} />
+                  </p>
+                  <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                    <span>
+                      {task.status === 'completed' ? 'Completed' : 'Due'} {format(completedOn(task), 'MMM d, yyyy')}
+                    </span>
+                    {task.category && (
+                      <span className="px-2 py-0.5 rounded-full" style={categoryBadgeStyle(getCategoryColor(task.category))}>
+                        {task.category}
+                      </span>
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      unarchiveTask(task.id);
+                      removeLocally(task.id);
+                      toast({
+                        title: 'Task unarchived',
+                        description: task.title,
+                        action: (
+                          <ToastAction
+                            altText="Undo"
+                            onClick={() => {
+                              archiveTask(task.id);
+                              setArchived(prev => (prev ? [...prev, task] : prev));
+                            }}
+                          >
+                            Undo
+                          </ToastAction>
+                        ),
+                      });
+                    }}
+                  >
+                    <ArchiveRestore className="w-4 h-4 mr-1" /> Unarchive
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    className="text-destructive hover:text-destructive"
+                    aria-label={`Move "${task.title}" to trash`}
+                    title="Move to trash"
+                    onClick={() => {
+                      deleteTask(task.id);
+                      removeLocally(task.id);
+                      toast({ title: 'Moved to trash', description: task.title });
+                    }}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default ArchivePage;
@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { AnimatePresence } from 'framer-motion';
+import { Navigate, useSearchParams } from 'react-router-dom';
+import { format, isValid, parseISO } from 'date-fns';
+import { CalendarDays, ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
+import { useAuthContext } from '@/contexts/AuthContext';
+import { useTasksContext } from '@/contexts/TasksContext';
+import { useCategories } from '@/hooks/useCategories';
+import { useToast } from '@/hooks/use-toast';
+import { useUndoShortcuts } from '@/hooks/useUndoShortcuts';
+import { Task } from '@/types';
+import { CalendarMode, stepDate } from '@/lib/calendar';
+import { cn } from '@/lib/utils';
+import TopNav from '@/components/TopNav';
+import VideoBg from '@/components/VideoBg';
+import { CalendarView } from '@/components/CalendarView';
+import { TaskForm } from '@/components/TaskForm';
+import { Button } from '@/components/ui/button';
+import { ToastAction } from '@/components/ui/toast';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+
+const modes: { value: CalendarMode; label: string }[] = [
+  { value: 'month', label: 'Month' },
+  { value: 'week', label: 'Week' },
+  { value: 'day', label: 'Day' },
+];
+
+const titleFormats: Record<CalendarMode, string> = {
+  month: 'MMMM yyyy',
+  week: "'Week of' MMM d, yyyy",
+  day: 'EEEE, MMMM d, yyyy',
+};
+
+const CalendarPage: React.FC = () => {
+  const { user, loading } = useAuthContext();
+  const { toast } = useToast();
+  const [editingTask, setEditingTask] = useState<Task | null>(null);
+
+  // View and date live in the URL so a calendar position can be linked to
+  const [params, setParams] = useSearchParams();
+  const mode = (modes.some(m => m.value === params.get('view')) ? params.get('view') : 'month') as CalendarMode;
+  const parsedDate = parseISO(params.get('date') ?? '');
+  const date = isValid(parsedDate) ? parsedDate : new Date();
+
+  const navigateTo = (nextMode: CalendarMode, nextDate: Date) => {
+    setParams({ view: nextMode, date: format(nextDate, 'yyyy-MM-dd') }, { replace: true });
+  };
+
+  const { tasks, updateTask, reassignCategory, undo, redo } = useTasksContext();
+  const { categories, addCategory } = useCategories(user?.uid || null, reassignCategory);
+
+  const handleUndo = () => {
+    const label = undo();
+    if (label) toast({ title: `Undone: ${label}` });
+  };
+
+  const handleRedo = () => {
+    const label = redo();
+    if (label) toast({ title: `Redone: ${label}` });
+  };
+
+  useUndoShortcuts(handleUndo, handleRedo);
+
+  const undoAction = () => <ToastAction altText="Undo" onClick={handleUndo}>Undo</ToastAction>;
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) return <Navigate to="/" replace />;
+
+  return (
+    <div className="min-h-screen bg-transparent relative">
+      <VideoBg />
+      <TopNav />
+
+      <main className="relative z-10 container mx-auto px-4 py-6 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="icon-sm" onClick={() => navigateTo(mode, stepDate(mode, date, -1))} aria-label="Previous">
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => navigateTo(mode, new Date())}>
+              Today
+            </Button>
+            <Button variant="ghost" size="icon-sm" onClick={() => navigateTo(mode, stepDate(mode, date, 1))} aria-label="Next">
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="ghost" className="text-lg font-bold text-foreground gap-2">
+                  <CalendarDays className="w-5 h-5" />
+                  {format(date, titleFormats[mode])}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="start">
+                <Calendar
+                  mode="single"
+                  selected={date}
+                  defaultMonth={date}
+                  onSelect={day => day && navigateTo(mode, day)}
+                  weekStartsOn={1}
+                />
+              </PopoverContent>
+            </Popover>
+          </div>
+
+          <div className="flex gap-1 rounded-full bg-muted p-1" role="group" aria-label="Calendar view">
+            {modes.map(m => (
+              <button
+                key={m.value}
+                onClick={() => navigateTo(m.value, date)}
+                aria-pressed={mode === m.value}
+                className={cn(
+                  "px-4 py-1.5 rounded-full text-sm font-medium transition-all duration-200",
+                  mode === m.value
+                    ? "gradient-primary text-primary-foreground shadow-md"
+                    : "text-muted-foreground hover:text-foreground"
+                )}
+              >
+                {m.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <CalendarView
+          mode={mode}
+          date={date}
+          tasks={tasks}
+          onReschedule={(task, deadline) => {
+            updateTask(task.id, { deadline });
+            toast({ title: 'Task rescheduled', description: `${task.title} · ${format(deadline, 'PPp')}`, action: undoAction() });
+          }}
+          onOpenTask={setEditingTask}
+          onSelectDay={day => navigateTo('day', day)}
+        />
+      </main>
+
+      <AnimatePresence>
+        {editingTask && (
+          <TaskForm
+            key={editingTask.id}
+            task={editingTask}
+            categories={categories}
+            onCreateCategory={name => addCategory(name)}
+            onSubmit={data => {
+              updateTask(editingTask.id, data);
+              setEditingTask(null);
+              toast({ title: 'Task updated', action: undoAction() });
+            }}
+            onClose={() => setEditingTask(null)}
+          />
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default CalendarPage;
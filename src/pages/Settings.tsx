@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { useAuthContext } from '@/contexts/AuthContext';
 import { auth, db } from '@/services/firebase';
 import TopNav from '@/components/TopNav';
@@ -8,6 +8,10 @@ import { updateProfile, updatePassword, EmailAuthProvider, reauthenticateWithCre
 import { useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
+import { useTasksContext } from '@/contexts/TasksContext';
+import { useCategories } from '@/hooks/useCategories';
+import { CategoryManager } from '@/components/CategoryManager';
+import { CalendarExport } from '@/components/CalendarExport';
 
 const Settings: React.FC = () => {
   const { user } = useAuthContext();
@@ -22,6 +26,18 @@ const Settings: React.FC = () => {
   const [newPassword, setNewPassword] = useState('');
   const [currentPassword, setCurrentPassword] = useState('');
 
+  const { tasks, importTasks, reassignCategory } = useTasksContext();
+  const { categories, addCategory, renameCategory, recolorCategory, deleteCategory } =
+    useCategories(user?.uid || null, reassignCategory);
+
+  const taskCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    tasks.forEach(t => {
+      if (t.category) counts[t.category] = (counts[t.category] ?? 0) + 1;
+    });
+    return counts;
+  }, [tasks]);
+
   useEffect(() => {
     if (!user) return;
     setEmail(user.email || '');
@@ -151,6 +167,23 @@ const Settings: React.FC = () => {
             </div>
           </div>
         </div>
+
+        <div className="max-w-md mx-auto bg-card rounded-2xl p-6 mt-6">
+          <h2 className="text-lg font-semibold mb-4">Categories</h2>
+          <CategoryManager
+            categories={categories}
+            taskCounts={taskCounts}
+            onCreate={addCategory}
+            onRename={renameCategory}
+            onRecolor={recolorCategory}
+            onDelete={deleteCategory}
+          />
+        </div>
+
+        <div className="max-w-md mx-auto bg-card rounded-2xl p-6 mt-6">
+          <h2 className="text-lg font-semibold mb-4">Calendar</h2>
+          <CalendarExport tasks={tasks} onImport={importTasks} />
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,401 @@
+import React, { useEffect, useState } from 'react';
+import { AnimatePresence } from 'framer-motion';
+import { Link, Navigate, useNavigate, useParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import {
+  ArrowLeft,
+  Archive,
+  ArchiveRestore,
+  Bell,
+  Calendar,
+  CheckCircle2,
+  Circle,
+  Flag,
+  Link2,
+  Loader2,
+  Pencil,
+  Repeat,
+  RotateCcw,
+  Trash2,
+} from 'lucide-react';
+import { useAuthContext } from '@/contexts/AuthContext';
+import { useTasksContext } from '@/contexts/TasksContext';
+import { useCategories } from '@/hooks/useCategories';
+import { useToast } from '@/hooks/use-toast';
+import { useUndoShortcuts } from '@/hooks/useUndoShortcuts';
+import { Task } from '@/types';
+import { cn } from '@/lib/utils';
+import { describeRecurrence } from '@/lib/recurrence';
+import { describeReminder } from '@/lib/reminders';
+import { sortChecklist, checklistProgress } from '@/lib/checklist';
+import { categoryBadgeStyle } from '@/lib/categories';
+import { isTaskOverdue } from '@/lib/deadlines';
+import { isArchived } from '@/lib/archive';
+import { isTrashed } from '@/lib/trash';
+import TopNav from '@/components/TopNav';
+import VideoBg from '@/components/VideoBg';
+import { TaskForm } from '@/components/TaskForm';
+import { TaskHistory } from '@/components/TaskHistory';
+import { Markdown } from '@/components/Markdown';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { ToastAction } from '@/components/ui/toast';
+
+const priorityConfig = {
+  high: { label: 'High', className: 'priority-high' },
+  medium: { label: 'Medium', className: 'priority-medium' },
+  low: { label: 'Low', className: 'priority-low' },
+};
+
+const formatTime = (date: Date) => format(new Date(date), 'MMM d, yyyy h:mm a');
+
+const TaskDetailPage: React.FC = () => {
+  const { id = '' } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { user, loading } = useAuthContext();
+  const { toast } = useToast();
+  const [editing, setEditing] = useState(false);
+
+  const {
+    tasks,
+    trashedTasks,
+    getTask,
+    updateTask,
+    deleteTask,
+    restoreTask,
+    archiveTask,
+    unarchiveTask,
+    toggleTaskStatus,
+    toggleChecklistItem,
+    reassignCategory,
+    undo,
+    redo,
+  } = useTasksContext();
+  const { categories, addCategory, getCategoryColor } = useCategories(user?.uid || null, reassignCategory);
+
+  // Archived tasks are not in the realtime list, so the task is also fetched
+  // once; undefined while that is in flight, null when it does not exist
+  const [fetched, setFetched] = useState<Task | null | undefined>(undefined);
+
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+    setFetched(undefined);
+    getTask(id)
+      .then(task => !cancelled && setFetched(task))
+      .catch(err => {
+        console.error('Failed to load task:', err);
+        if (!cancelled) setFetched(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [user, id, getTask]);
+
+  const live = tasks.find(t => t.id === id) ?? trashedTasks.find(t => t.id === id);
+  const task = live ?? fetched;
+
+  const handleUndo = () => {
+    const label = undo();
+    if (label) toast({ title: `Undone: ${label}` });
+  };
+
+  const handleRedo = () => {
+    const label = redo();
+    if (label) toast({ title: `Redone: ${label}` });
+  };
+
+  useUndoShortcuts(handleUndo, handleRedo);
+
+  const undoAction = () => <ToastAction altText="Undo" onClick={handleUndo}>Undo</ToastAction>;
+
+  const copyLink = () => {
+    navigator.clipboard
+      .writeText(window.location.href)
+      .then(() => toast({ title: 'Link copied' }))
+      .catch(() => toast({ title: 'Could not copy the link', variant: 'destructive' }));
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) return <Navigate to="/" replace />;
+
+  const renderContent = () => {
+    if (task === undefined) {
+      return (
+        <div className="flex justify-center py-12">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        </div>
+      );
+    }
+
+    // Tasks live under the signed-in user's own collection, so another
+    // user's task id ends up here as well
+    if (task === null) {
+      return (
+        <div className="bg-card rounded-2xl border p-8 text-center space-y-3">
+          <h1 className="text-xl font-bold text-foreground">Task not found</h1>
+          <p className="text-muted-foreground">
+            This task does not exist, was deleted, or belongs to another account.
+          </p>
+          <Button variant="gradient" onClick={() => navigate('/')}>Back to tasks</Button>
+        </div>
+      );
+    }
+
+    const isCompleted = task.status === 'completed';
+    const trashed = isTrashed(task);
+    const archived = isArchived(task);
+    // Status and checklist toggles only apply to tasks on the dashboard
+    const active = !trashed && !archived;
+    const deadline = new Date(task.deadline);
+    const isOverdue = isTaskOverdue(task);
+    const priority = priorityConfig[task.priority];
+    const checklist = sortChecklist(task.checklist);
+    const progress = checklistProgress(checklist);
+
+    return (
+      <article className="bg-card rounded-2xl border shadow-md p-6 space-y-6">
+        {trashed && (
+          <div className="flex items-center justify-between gap-3 rounded-lg bg-destructive/10 px-4 py-2 text-sm text-destructive">
+            <span>This task is in the trash.</span>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                restoreTask(task.id);
+                toast({ title: 'Task restored', description: task.title, action: undoAction() });
+              }}
+            >
+              <RotateCcw className="w-4 h-4 mr-1" /> Restore
+            </Button>
+          </div>
+        )}
+        {archived && (
+          <div className="flex items-center justify-between gap-3 rounded-lg bg-muted px-4 py-2 text-sm text-muted-foreground">
+            <span>This task is archived.</span>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                unarchiveTask(task.id);
+                setFetched({ ...task, archivedAt: undefined });
+                toast({ title: 'Task unarchived', description: task.title });
+              }}
+            >
+              <ArchiveRestore className="w-4 h-4 mr-1" /> Unarchive
+            </Button>
+          </div>
+        )}
+
+        <div className="flex items-start gap-3">
+          <button
+            onClick={() => toggleTaskStatus(task.id)}
+            disabled={!active}
+            className="mt-1 transition-transform duration-200 hover:scale-110 disabled:hover:scale-100"
+            aria-label={isCompleted ? 'Mark as pending' : 'Mark as completed'}
+          >
+            {isCompleted ? (
+              <CheckCircle2 className="w-7 h-7 text-success" />
+            ) : (
+              <Circle className="w-7 h-7 text-muted-foreground" />
+            )}
+          </button>
+          <h1 className={cn(
+            "flex-1 min-w-0 text-2xl font-bold text-foreground break-words",
+            isCompleted && "line-through text-muted-foreground"
+          )}>
+            {task.title}
+          </h1>
+          <div className="flex items-center gap-1 shrink-0">
+            <Button variant="ghost" size="icon-sm" onClick={copyLink} aria-label="Copy link" title="Copy link">
+              <Link2 className="w-4 h-4" />
+            </Button>
+            {active && (
+              <Button variant="ghost" size="icon-sm" onClick={() => setEditing(true)} aria-label="Edit task" title="Edit">
+                <Pencil className="w-4 h-4" />
+              </Button>
+            )}
+            {active && isCompleted && (
+              <Button
+                variant="ghost"
+                size="icon-sm"
+                onClick={() => {
+                  archiveTask(task.id);
+                  setFetched({ ...task, archivedAt: new Date() });
+                  toast({ title: 'Task archived', description: task.title });
+                }}
+                aria-label="Archive task"
+                title="Archive"
+              >
+                <Archive className="w-4 h-4" />
+              </Button>
+            )}
+            {!trashed && (
+              <Button
+                variant="ghost"
+                size="icon-sm"
+                className="hover:text-destructive"
+                onClick={() => {
+                  deleteTask(task.id);
+                  toast({ title: 'Moved to trash', description: task.title, action: undoAction() });
+                  navigate('/');
+                }}
+                aria-label="Delete task"
+                title="Move to trash"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <span className={cn("px-2 py-0.5 rounded-full text-xs font-medium", priority.className)}>
+            <Flag className="w-3 h-3 inline mr-1" />
+            {priority.label}
+          </span>
+          <span className={cn(
+            "px-2 py-0.5 rounded-full text-xs font-medium flex items-center gap-1",
+            isOverdue ? "bg-destructive/10 text-destructive" : "bg-muted text-muted-foreground"
+          )}>
+            <Calendar className="w-3 h-3" />
+            {formatTime(deadline)}
+          </span>
+          {task.recurrence && (
+            <span className="px-2 py-0.5 rounded-full text-xs font-medium flex items-center gap-1 bg-muted text-muted-foreground">
+              <Repeat className="w-3 h-3" />
+              {describeRecurrence(task.recurrence)}
+            </span>
+          )}
+          {task.reminders && task.reminders.length > 0 && (
+            <span className="px-2 py-0.5 rounded-full text-xs font-medium flex items-center gap-1 bg-muted text-muted-foreground">
+              <Bell className="w-3 h-3" />
+              {task.reminders.map(r => describeReminder(r.minutesBefore)).join(', ')}
+            </span>
+          )}
+          {task.category && (
+            <span
+              className="px-2 py-0.5 rounded-full text-xs font-medium bg-accent text-accent-foreground"
+              style={categoryBadgeStyle(getCategoryColor(task.category) ?? task.categoryColor)}
+            >
+              {task.category}
+            </span>
+          )}
+        </div>
+
+        {task.description ? (
+          <Markdown source={task.description} className="text-foreground" />
+        ) : (
+          <p className="text-muted-foreground italic">No description</p>
+        )}
+
+        {checklist.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <Progress
+                value={(progress.done / progress.total) * 100}
+                className="h-1.5 flex-1"
+                aria-label="Checklist progress"
+              />
+              <span className="text-xs text-muted-foreground tabular-nums">
+                {progress.done}/{progress.total}
+              </span>
+            </div>
+            <ul className="space-y-1.5">
+              {checklist.map(item => (
+                <li key={item.id}>
+                  <button
+                    type="button"
+                    onClick={() => toggleChecklistItem(task.id, item.id)}
+                    disabled={!active}
+                    className="flex items-center gap-2 text-left w-full"
+                  >
+                    {item.completed ? (
+                      <CheckCircle2 className="w-4 h-4 shrink-0 text-success" />
+                    ) : (
+                      <Circle className="w-4 h-4 shrink-0 text-muted-foreground" />
+                    )}
+                    <span className={cn("text-foreground", item.completed && "line-through text-muted-foreground")}>
+                      {item.text}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <dl className="grid grid-cols-[auto,1fr] gap-x-4 gap-y-1 text-sm">
+          <dt className="text-muted-foreground">Created</dt>
+          <dd className="text-foreground">{formatTime(task.createdAt)}</dd>
+          {task.updatedAt && (
+            <>
+              <dt className="text-muted-foreground">Last updated</dt>
+              <dd className="text-foreground">{formatTime(task.updatedAt)}</dd>
+            </>
+          )}
+          {isCompleted && task.completedAt && (
+            <>
+              <dt className="text-muted-foreground">Completed</dt>
+              <dd className="text-foreground">{formatTime(task.completedAt)}</dd>
+            </>
+          )}
+          {task.archivedAt && (
+            <>
+              <dt className="text-muted-foreground">Archived</dt>
+              <dd className="text-foreground">{formatTime(task.archivedAt)}</dd>
+            </>
+          )}
+          {task.deletedAt && (
+            <>
+              <dt className="text-muted-foreground">Deleted</dt>
+              <dd className="text-foreground">{formatTime(task.deletedAt)}</dd>
+            </>
+          )}
+        </dl>
+
+        <TaskHistory task={task} />
+      </article>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-transparent relative">
+      <VideoBg />
+      <TopNav />
+
+      <main className="relative z-10 container mx-auto px-4 py-6 space-y-4 max-w-3xl">
+        <Link to="/" className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground">
+          <ArrowLeft className="w-4 h-4" /> All tasks
+        </Link>
+        {renderContent()}
+      </main>
+
+      <AnimatePresence>
+        {editing && task && (
+          <TaskForm
+            key={task.id}
+            task={task}
+            categories={categories}
+            onCreateCategory={name => addCategory(name)}
+            onSubmit={data => {
+              updateTask(task.id, data);
+              setEditing(false);
+              toast({ title: 'Task updated', action: undoAction() });
+            }}
+            onClose={() => setEditing(false)}
+          />
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default TaskDetailPage;
@@ -0,0 +1,162 @@
+import React from 'react';
+import { Navigate } from 'react-router-dom';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Loader2, RotateCcw, Trash2 } from 'lucide-react';
+import { useAuthContext } from '@/contexts/AuthContext';
+import { useTasksContext } from '@/contexts/TasksContext';
+import { useToast } from '@/hooks/use-toast';
+import { useUndoShortcuts } from '@/hooks/useUndoShortcuts';
+import { purgeDate, TRASH_RETENTION_OPTIONS } from '@/lib/trash';
+import TopNav from '@/components/TopNav';
+import VideoBg from '@/components/VideoBg';
+import { Button } from '@/components/ui/button';
+import { ToastAction } from '@/components/ui/toast';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+
+const TrashPage: React.FC = () => {
+  const { user, loading } = useAuthContext();
+  const { toast } = useToast();
+
+  const { trashedTasks, restoreTask, purgeTask, emptyTrash, undo, redo, preferences, updatePreferences } =
+    useTasksContext();
+  const retentionDays = preferences.trashRetentionDays;
+
+  const handleUndo = () => {
+    const label = undo();
+    if (label) toast({ title: `Undone: ${label}` });
+  };
+
+  const handleRedo = () => {
+    const label = redo();
+    if (label) toast({ title: `Redone: ${label}` });
+  };
+
+  useUndoShortcuts(handleUndo, handleRedo);
+
+  const undoAction = () => <ToastAction altText="Undo" onClick={handleUndo}>Undo</ToastAction>;
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) return <Navigate to="/" replace />;
+
+  return (
+    <div className="min-h-screen bg-transparent relative">
+      <VideoBg />
+      <TopNav />
+
+      <main className="relative z-10 container mx-auto px-4 py-6 space-y-4 max-w-3xl">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <h1 className="text-2xl font-bold text-foreground flex items-center gap-2">
+            <Trash2 className="w-6 h-6" /> Trash
+          </h1>
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground">Delete after</span>
+            <Select
+              value={String(retentionDays)}
+              onValueChange={value => updatePreferences({ trashRetentionDays: Number(value) })}
+            >
+              <SelectTrigger className="h-9 w-28 rounded-full bg-card" aria-label="Keep deleted tasks for">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TRASH_RETENTION_OPTIONS.map(option => (
+                  <SelectItem key={option.days} value={String(option.days)}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="outline" size="sm" disabled={trashedTasks.length === 0}>Empty trash</Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Empty the trash?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    {trashedTasks.length} task{trashedTasks.length === 1 ? '' : 's'} will be deleted permanently.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={() => {
+                      emptyTrash();
+                      toast({ title: 'Trash emptied', action: undoAction() });
+                    }}
+                  >
+                    Delete all
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        </div>
+
+        {trashedTasks.length === 0 ? (
+          <p className="text-center py-12 text-muted-foreground">The trash is empty</p>
+        ) : (
+          <ul className="space-y-3">
+            {trashedTasks.map(task => {
+              const purgeAt = purgeDate(task, retentionDays);
+              return (
+                <li key={task.id} className="bg-card rounded-xl border p-4 flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="font-medium text-foreground truncate">{task.title}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Deleted {formatDistanceToNow(new Date(task.deletedAt!), { addSuffix: true })}
+                      {purgeAt && ` · removed for good on ${format(purgeAt, 'MMM d')}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        restoreTask(task.id);
+                        toast({ title: 'Task restored', description: task.title, action: undoAction() });
+                      }}
+                    >
+                      <RotateCcw className="w-4 h-4 mr-1" /> Restore
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon-sm"
+                      className="text-destructive hover:text-destructive"
+                      aria-label={`Delete "${task.title}" permanently`}
+                      title="Delete permanently"
+                      onClick={() => {
+                        purgeTask(task.id);
+                        toast({ title: 'Task deleted permanently', description: task.title, action: undoAction() });
+                      }}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default TrashPage;
@@ -0,0 +1,64 @@
+/**
+ * Firestore Category Repository
+ *
+ * Stores categories under users/{uid}/categories.
+ */
+
+import {
+  collection,
+  onSnapshot,
+  addDoc,
+  doc,
+  updateDoc,
+  deleteDoc,
+  runTransaction
+} from 'firebase/firestore';
+import { db } from '@/services/firebase';
+import { Category } from '@/types';
+import { CategoryRepository } from './types';
+import { byName } from './sort';
+
+export const createFirestoreCategoryRepository = (): CategoryRepository => ({
+  subscribe(userId, onChange, onError) {
+    const categoriesCol = collection(db, 'users', userId, 'categories');
+
+    return onSnapshot(categoriesCol, snapshot => {
+      const categories: Category[] = snapshot.docs.map(d => ({
+        id: d.id,
+        name: d.data().name,
+        color: d.data().color
+      }));
+      onChange(categories.sort(byName));
+    }, err => {
+      console.error('Categories realtime listener error:', err);
+      onError?.(err);
+    });
+  },
+
+  async create(userId, data) {
+    const ref = await addDoc(collection(db, 'users', userId, 'categories'), {
+      name: data.name,
+      color: data.color
+    });
+    return ref.id;
+  },
+
+  async seed(userId, categories) {
+    const refs = categories.map(category => doc(db, 'users', userId, 'categories', category.id));
+    // A transaction, so a category renamed meanwhile is not overwritten
+    await runTransaction(db, async transaction => {
+      const existing = await Promise.all(refs.map(ref => transaction.get(ref)));
+      categories.forEach((category, i) => {
+        if (!existing[i].exists()) transaction.set(refs[i], { name: category.name, color: category.color });
+      });
+    });
+  },
+
+  async update(userId, id, updates) {
+    await updateDoc(doc(db, 'users', userId, 'categories', id), { ...updates });
+  },
+
+  async remove(userId, id) {
+    await deleteDoc(doc(db, 'users', userId, 'categories', id));
+  }
+});
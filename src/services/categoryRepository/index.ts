@@ -0,0 +1,30 @@
+/**
+ * Category Repository
+ *
+ * Uses the same VITE_TASK_BACKEND setting as the task repository, so
+ * categories always live next to the tasks that reference them.
+ */
+
+import { TaskBackend } from '@/services/taskRepository';
+import { CategoryRepository, CategoryData } from './types';
+import { createFirestoreCategoryRepository } from './firestore';
+import { createIndexedDbCategoryRepository } from './indexedDb';
+import { createMemoryCategoryRepository } from './memory';
+
+export const createCategoryRepository = (backend: TaskBackend): CategoryRepository => {
+  switch (backend) {
+    case 'indexeddb':
+      return createIndexedDbCategoryRepository();
+    case 'memory':
+      return createMemoryCategoryRepository();
+    case 'firestore':
+    default:
+      return createFirestoreCategoryRepository();
+  }
+};
+
+const configuredBackend = (import.meta.env.VITE_TASK_BACKEND || 'firestore') as TaskBackend;
+
+export const categoryRepository: CategoryRepository = createCategoryRepository(configuredBackend);
+
+export type { CategoryRepository, CategoryData };
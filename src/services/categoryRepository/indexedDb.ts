@@ -0,0 +1,84 @@
+/**
+ * IndexedDB Category Repository
+ *
+ * Shares the browser database with the IndexedDB task repository.
+ */
+
+import { Category } from '@/types';
+import { CategoryRepository } from './types';
+import { createListenerRegistry, withStore, withTransaction, createStoreChannel } from '@/services/localStore';
+import { generateId } from '@/lib/utils';
+import { byName } from './sort';
+
+const STORE = 'categories';
+
+type StoredCategory = Category & { userId: string };
+
+export const createIndexedDbCategoryRepository = (): CategoryRepository => {
+  const listeners = createListenerRegistry<Category>();
+  const channel = createStoreChannel(STORE);
+
+  const listFor = async (userId: string): Promise<Category[]> => {
+    const stored = await withStore(STORE, 'readonly', store => store.index('userId').getAll(userId) as IDBRequest<StoredCategory[]>);
+    return stored.map(({ userId: _owner, ...category }) => category).sort(byName);
+  };
+
+  const notify = async (userId: string, broadcast = true) => {
+    listeners.emit(userId, await listFor(userId));
+    if (broadcast) channel?.postMessage(userId);
+  };
+
+  channel?.addEventListener('message', (event: MessageEvent<string>) => {
+    notify(event.data, false).catch(err => console.error('Failed to refresh categories from IndexedDB:', err));
+  });
+
+  const getCategory = (id: string) => withStore(STORE, 'readonly', store => store.get(id) as IDBRequest<StoredCategory | undefined>);
+
+  return {
+    subscribe(userId, onChange, onError) {
+      const unsubscribe = listeners.add(userId, onChange);
+      listFor(userId).then(onChange).catch(err => {
+        console.error('Failed to load categories from IndexedDB:', err);
+        onError?.(err);
+      });
+      return unsubscribe;
+    },
+
+    async create(userId, data) {
+      const id = generateId();
+      await withStore(STORE, 'readwrite', store => store.add({ ...data, id, userId }));
+      await notify(userId);
+      return id;
+    },
+
+    async seed(userId, categories) {
+      await withTransaction(STORE, store => {
+        // The store holds every user's categories
+        categories.forEach(category => {
+          const id = `${userId}-${category.id}`;
+          const request = store.get(id);
+          request.onsuccess = () => {
+            if (!request.result) store.add({ ...category, id, userId });
+          };
+        });
+      });
+      await notify(userId);
+    },
+
+    async update(userId, id, updates) {
+      const existing = await getCategory(id);
+      if (!existing || existing.userId !== userId) {
+        throw new Error(`Category ${id} not found`);
+      }
+      await withStore(STORE, 'readwrite', store => store.put({ ...existing, ...updates, id, userId }));
+      await notify(userId);
+    },
+
+    async remove(userId, id) {
+      const existing = await getCategory(id);
+      if (!existing || existing.userId !== userId) return;
+      await withStore(STORE, 'readwrite', store => store.delete(id));
+      await notify(userId);
+    }
+  };
+};
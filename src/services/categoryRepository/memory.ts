@@ -0,0 +1,64 @@
+/**
+ * In-Memory Category Repository
+ */
+
+import { Category } from '@/types';
+import { CategoryRepository } from './types';
+import { createListenerRegistry } from '@/services/localStore';
+import { generateId } from '@/lib/utils';
+import { byName } from './sort';
+
+type StoredCategory = Category & { userId: string };
+
+export const createMemoryCategoryRepository = (): CategoryRepository => {
+  const store = new Map<string, StoredCategory>();
+  const listeners = createListenerRegistry<Category>();
+
+  const listFor = (userId: string): Category[] =>
+    Array.from(store.values())
+      .filter(c => c.userId === userId)
+      .map(({ userId: _owner, ...category }) => category)
+      .sort(byName);
+
+  const notify = (userId: string) => listeners.emit(userId, listFor(userId));
+
+  return {
+    subscribe(userId, onChange) {
+      const unsubscribe = listeners.add(userId, onChange);
+      onChange(listFor(userId));
+      return unsubscribe;
+    },
+
+    async create(userId, data) {
+      const id = generateId();
+      store.set(id, { ...data, id, userId });
+      notify(userId);
+      return id;
+    },
+
+    async seed(userId, categories) {
+      // The map holds every user's categories
+      categories
+        .map(category => ({ ...category, id: `${userId}-${category.id}`, userId }))
+        .filter(category => !store.has(category.id))
+        .forEach(category => store.set(category.id, category));
+      notify(userId);
+    },
+
+    async update(userId, id, updates) {
+      const existing = store.get(id);
+      if (!existing || existing.userId !== userId) {
+        throw new Error(`Category ${id} not found`);
+      }
+      store.set(id, { ...existing, ...updates, id, userId });
+      notify(userId);
+    },
+
+    async remove(userId, id) {
+      if (store.get(id)?.userId === userId) {
+        store.delete(id);
+        notify(userId);
+      }
+    }
+  };
+};
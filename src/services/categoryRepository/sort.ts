@@ -0,0 +1,4 @@
+import { Category } from '@/types';
+
+export const byName = (a: Category, b: Category) =>
+  a.name.localeCompare(b.name, undefined, { sensitivity: 'base' });
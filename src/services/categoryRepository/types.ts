@@ -0,0 +1,31 @@
+import { Category } from '@/types';
+
+export type CategoryData = Omit<Category, 'id'>;
+
+/**
+ * Storage backend for a user's categories, mirroring TaskRepository
+ */
+export interface CategoryRepository {
+  /** Subscribe to the user's categories, sorted by name */
+  subscribe: (
+    userId: string,
+    onChange: (categories: Category[]) => void,
+    onError?: (error: Error) => void
+  ) => () => void;
+
+  /** Create a category and resolve with its id */
+  create: (userId: string, data: CategoryData) => Promise<string>;
+
+  /**
+   * Create categories under fixed ids derived from their own (scoped to the
+   * user where the store is shared), skipping ids that already exist, so
+   * seeding twice never duplicates or overwrites anything
+   */
+  seed: (userId: string, categories: Category[]) => Promise<void>;
+
+  /** Rename and/or recolor a category */
+  update: (userId: string, id: string, updates: Partial<CategoryData>) => Promise<void>;
+
+  /** Remove a category (tasks are reassigned by the caller) */
+  remove: (userId: string, id: string) => Promise<void>;
+}
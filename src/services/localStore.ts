@@ -0,0 +1,103 @@
+/**
+ * Local Store Helpers
+ *
+ * Shared plumbing for the browser-only (IndexedDB and in-memory)
+ * repositories: a per-user listener registry, since these backends have no
+ * realtime feed of their own, and a small promise wrapper around IndexedDB.
+ */
+
+export const DB_NAME = 'donezit';
+const DB_VERSION = 2;
+
+// Object stores, each keyed by `id` with a `userId` index
+export const STORES = ['tasks', 'categories'] as const;
+export type StoreName = typeof STORES[number];
+
+/**
+ * Per-user listener registry; backends notify after every write
+ */
+export const createListenerRegistry = <T>() => {
+  const listeners = new Map<string, Set<(items: T[]) => void>>();
+
+  return {
+    add(userId: string, listener: (items: T[]) => void) {
+      if (!listeners.has(userId)) listeners.set(userId, new Set());
+      listeners.get(userId)!.add(listener);
+      return () => {
+        listeners.get(userId)?.delete(listener);
+      };
+    },
+
+    emit(userId: string, items: T[]) {
+      listeners.get(userId)?.forEach(listener => listener(items));
+    }
+  };
+};
+
+/**
+ * Order records the same way the Firestore queries do (oldest first)
+ */
+export const byCreatedAt = <T extends { createdAt: Date }>(a: T, b: T) =>
+  new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+
+/**
+ * Wrap an IDBRequest in a Promise
+ */
+export const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      STORES.forEach(name => {
+        if (db.objectStoreNames.contains(name)) return;
+        const store = db.createObjectStore(name, { keyPath: 'id' });
+        store.createIndex('userId', 'userId', { unique: false });
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Run a single request against one object store
+ */
+export const withStore = async <T>(
+  name: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await (dbPromise ??= openDatabase());
+  return promisify(run(db.transaction(name, mode).objectStore(name)));
+};
+
+/**
+ * Run several writes in one transaction; resolves once it commits, and a
+ * failing request rolls back every write
+ */
+export const withTransaction = async (
+  name: StoreName,
+  run: (store: IDBObjectStore) => void
+): Promise<void> => {
+  const db = await (dbPromise ??= openDatabase());
+  const transaction = db.transaction(name, 'readwrite');
+  run(transaction.objectStore(name));
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+/**
+ * BroadcastChannel used to tell other tabs that a store changed for a user
+ */
+export const createStoreChannel = (name: StoreName): BroadcastChannel | null =>
+  typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(`${DB_NAME}-${name}`) : null;
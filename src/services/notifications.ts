@@ -0,0 +1,102 @@
+/**
+ * Notifications Service
+ *
+ * Shows reminder notifications through the service worker, so they can
+ * carry "Snooze" and "Mark done" actions. The page hands its reminder
+ * schedule to the worker, which shows reminders that come due while the app
+ * is closed where the browser allows it (notification triggers or periodic
+ * background sync).
+ */
+
+import { Task, TaskReminder } from '@/types';
+import { reminderTag, ScheduledReminder, SNOOZE_MINUTES } from '@/lib/reminders';
+import { registerServiceWorker } from '@/services/serviceWorker';
+import { format } from 'date-fns';
+
+// Messages between the page and the service worker
+export type ReminderAction = 'snooze' | 'done' | 'open';
+
+export interface ReminderActionMessage {
+  type: 'reminder-action';
+  action: ReminderAction;
+  taskId: string;
+  reminderId: string;
+  // When the notification was clicked (ms), which may be long before the app saw it
+  at: number;
+}
+
+export const notificationsSupported = (): boolean =>
+  typeof window !== 'undefined' && 'Notification' in window && 'serviceWorker' in navigator;
+
+/**
+ * Ask for permission to show notifications; call from a user gesture
+ */
+export const requestNotificationPermission = async (): Promise<NotificationPermission> => {
+  if (!notificationsSupported()) return 'denied';
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+};
+
+const notificationContent = (task: Task, reminder: TaskReminder) => ({
+  body: `Due ${format(new Date(task.deadline), 'EEE, MMM d · HH:mm')}`,
+  tag: reminderTag(task.id, reminder.id),
+  data: { taskId: task.id, reminderId: reminder.id },
+});
+
+/**
+ * Show a reminder now
+ */
+export const showReminder = async (task: Task, reminder: TaskReminder): Promise<void> => {
+  if (!notificationsSupported() || Notification.permission !== 'granted') return;
+  const content = notificationContent(task, reminder);
+  const reg = await registerServiceWorker();
+
+  if (reg) {
+    await reg.showNotification(task.title, {
+      ...content,
+      icon: '/logo.png',
+      requireInteraction: true,
+      actions: [
+        { action: 'snooze', title: `Snooze ${SNOOZE_MINUTES} min` },
+        { action: 'done', title: 'Mark done' },
+      ],
+    } as NotificationOptions);
+  } else {
+    // Without a worker there are no action buttons; a click just focuses the app
+    const notification = new Notification(task.title, { ...content, icon: '/logo.png' });
+    notification.onclick = () => window.focus();
+  }
+};
+
+const postToWorker = async (message: unknown) => {
+  const reg = await registerServiceWorker();
+  (reg?.active ?? navigator.serviceWorker?.controller)?.postMessage(message);
+};
+
+/**
+ * Hand the upcoming reminders to the service worker, replacing what it had
+ */
+export const syncReminderSchedule = (reminders: ScheduledReminder[]): Promise<void> =>
+  postToWorker({
+    type: 'reminders:schedule',
+    reminders: reminders.map(({ task, reminder, at }) => ({
+      title: task.title,
+      ...notificationContent(task, reminder),
+      at: at.getTime(),
+    })),
+  });
+
+/**
+ * Listen for notification actions; actions taken while the app was closed
+ * are delivered once the listener is attached
+ */
+export const onReminderAction = (handler: (message: ReminderActionMessage) => void): (() => void) => {
+  if (!('serviceWorker' in navigator)) return () => {};
+
+  const listener = (event: MessageEvent) => {
+    if (event.data?.type === 'reminder-action') handler(event.data as ReminderActionMessage);
+  };
+  navigator.serviceWorker.addEventListener('message', listener);
+  postToWorker({ type: 'reminders:drain' });
+  return () => navigator.serviceWorker.removeEventListener('message', listener);
+};
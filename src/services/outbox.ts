@@ -0,0 +1,265 @@
+/**
+ * Offline Mutation Outbox
+ *
+ * Task mutations made while offline (or that fail against the backend) are
+ * queued here and persisted to localStorage, so they survive reloads.
+ * When the network comes back the queue is replayed in order:
+ * - tasks created offline get a temporary `local-` id that is remapped to
+ *   the real id once the create reaches the backend
+ * - updates are merged field by field against the current server copy;
+ *   fields changed on both sides go to whichever edit is newer, judged by
+ *   the tasks' `updatedAt`, and are recorded as conflicts so the user can
+ *   see what happened
+ * - whole-task writes (undo, the next occurrence of a recurring task) store
+ *   the task exactly as given, under its own id
+ */
+
+import { ImportedTask, Task, TaskConflict } from '@/types';
+import { TaskRepository } from '@/services/taskRepository';
+import { TASK_CHANGE_LIMIT } from '@/lib/taskHistory';
+
+export type PendingMutation =
+  // Imports queued offline keep their status and creation date
+  | { type: 'create'; taskId: string; data: ImportedTask; queuedAt: number }
+  | { type: 'update'; taskId: string; updates: Partial<Task>; base: Partial<Task>; queuedAt: number }
+  | { type: 'remove'; taskId: string; queuedAt: number }
+  | { type: 'put'; taskId: string; task: Task; queuedAt: number };
+
+export interface OutboxState {
+  mutations: PendingMutation[];
+  conflicts: TaskConflict[];
+}
+
+export const EMPTY_OUTBOX: OutboxState = { mutations: [], conflicts: [] };
+
+// Task fields that hold Dates and must be revived after JSON round-trips
+const DATE_FIELDS = ['createdAt', 'deadline', 'deletedAt', 'completedAt', 'archivedAt', 'updatedAt'];
+
+const storageKey = (userId: string) => `outbox_${userId}`;
+
+const reviveDates = <T extends object>(value: T): T => {
+  if (!value) return value;
+  const revived = { ...value } as Record<string, unknown>;
+  DATE_FIELDS.forEach(field => {
+    if (typeof revived[field] === 'string') revived[field] = new Date(revived[field] as string);
+  });
+  return revived as T;
+};
+
+export const isLocalId = (id: string) => id.startsWith('local-');
+
+export const createLocalId = () =>
+  `local-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Load the persisted outbox for a user
+ */
+export const loadOutbox = (userId: string): OutboxState => {
+  try {
+    const stored = localStorage.getItem(storageKey(userId));
+    if (!stored) return EMPTY_OUTBOX;
+    const parsed = JSON.parse(stored) as OutboxState;
+    return {
+      mutations: (parsed.mutations || []).map(m => {
+        if (m.type === 'create') return { ...m, data: reviveDates(m.data) };
+        if (m.type === 'update') return { ...m, updates: reviveDates(m.updates), base: reviveDates(m.base) };
+        if (m.type === 'put') return { ...m, task: reviveDates(m.task) };
+        return m;
+      }),
+      conflicts: (parsed.conflicts || []).map(c => ({ ...c, detectedAt: new Date(c.detectedAt) }))
+    };
+  } catch (e) {
+    console.error('Failed to parse stored outbox:', e);
+    return EMPTY_OUTBOX;
+  }
+};
+
+/**
+ * Persist the outbox for a user
+ */
+export const saveOutbox = (userId: string, state: OutboxState) => {
+  try {
+    if (state.mutations.length === 0 && state.conflicts.length === 0) {
+      localStorage.removeItem(storageKey(userId));
+    } else {
+      localStorage.setItem(storageKey(userId), JSON.stringify(state));
+    }
+  } catch (e) {
+    console.error('Failed to persist outbox:', e);
+  }
+};
+
+/**
+ * Overlay pending mutations on top of the server task list so the UI shows
+ * the user's offline edits instead of the stale server copy.
+ */
+export const applyPendingMutations = (
+  serverTasks: Task[],
+  mutations: PendingMutation[],
+  userId: string
+): Task[] => {
+  const byId = new Map(serverTasks.map(task => [task.id, task]));
+
+  mutations.forEach(m => {
+    switch (m.type) {
+      case 'create':
+        byId.set(m.taskId, {
+          ...m.data,
+          id: m.taskId,
+          userId,
+          createdAt: m.data.createdAt ?? new Date(m.queuedAt),
+          status: m.data.status ?? 'pending'
+        });
+        break;
+      case 'update': {
+        const existing = byId.get(m.taskId);
+        if (existing) byId.set(m.taskId, { ...existing, ...m.updates });
+        break;
+      }
+      case 'remove':
+        byId.delete(m.taskId);
+        break;
+      case 'put':
+        byId.set(m.taskId, { ...m.task, id: m.taskId, userId });
+        break;
+    }
+  });
+
+  return Array.from(byId.values());
+};
+
+const sameValue = (a: unknown, b: unknown) => {
+  if (a instanceof Date || b instanceof Date) {
+    return new Date(a as Date).getTime() === new Date(b as Date).getTime();
+  }
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+};
+
+/**
+ * Merge a queued update with the current server copy of the task.
+ * Returns the fields that should still be written and any conflicts.
+ */
+const mergeUpdate = (
+  mutation: Extract<PendingMutation, { type: 'update' }>,
+  server: Task
+): { updates: Partial<Task>; conflicts: TaskConflict[] } => {
+  const updates: Partial<Task> = {};
+  const conflicts: TaskConflict[] = [];
+  // Updates queued before updatedAt existed fall back to their queue time
+  const localTime = new Date(mutation.updates.updatedAt ?? mutation.queuedAt).getTime();
+  const serverWins = server.updatedAt ? new Date(server.updatedAt).getTime() > localTime : false;
+
+  (Object.keys(mutation.updates) as (keyof Task)[]).forEach(field => {
+    // Bookkeeping fields, handled below
+    if (field === 'updatedAt' || field === 'changes') return;
+
+    const localValue = mutation.updates[field];
+    const serverValue = server[field];
+
+    // Nobody else touched the field, or both sides agree
+    if (sameValue(mutation.base[field], serverValue) || sameValue(localValue, serverValue)) {
+      if (!sameValue(localValue, serverValue)) {
+        (updates as Record<string, unknown>)[field] = localValue;
+      }
+      return;
+    }
+
+    // Changed on both sides: the newer edit wins
+    if (!serverWins) (updates as Record<string, unknown>)[field] = localValue;
+    conflicts.push({
+      id: `${mutation.taskId}-${field}-${mutation.queuedAt}`,
+      taskId: server.id,
+      taskTitle: server.title,
+      field,
+      localValue,
+      serverValue,
+      resolution: serverWins ? 'server' : 'local',
+      detectedAt: new Date()
+    });
+  });
+
+  if (Object.keys(updates).length === 0) return { updates, conflicts };
+
+  // Keep the server's history and add the queued entries for fields still written
+  const baseChanges = mutation.base.changes ?? [];
+  const since = baseChanges.length > 0 ? new Date(baseChanges[baseChanges.length - 1].changedAt).getTime() : -Infinity;
+  const written = (mutation.updates.changes ?? []).filter(change =>
+    new Date(change.changedAt).getTime() > since && change.field in updates
+  );
+  if (written.length > 0) {
+    updates.changes = [...(server.changes ?? []), ...written].slice(-TASK_CHANGE_LIMIT);
+  }
+  if (!serverWins) updates.updatedAt = mutation.updates.updatedAt;
+  return { updates, conflicts };
+};
+
+/**
+ * Replay queued mutations in order against the repository.
+ * Reads and writes the live outbox through `store` after every mutation, so
+ * edits queued while the replay is running are picked up and progress is
+ * never lost. Stops at the first failure and keeps the rest for next time.
+ * `onCreated` hears about every local id that got its real id, for state
+ * kept outside the outbox.
+ */
+export const replayOutbox = async (
+  userId: string,
+  repository: TaskRepository,
+  store: { read: () => OutboxState; write: (state: OutboxState) => void },
+  onCreated?: (localId: string, serverId: string) => void
+): Promise<void> => {
+  while (store.read().mutations.length > 0) {
+    const [mutation] = store.read().mutations;
+    const conflicts: TaskConflict[] = [];
+    let serverId: string | null = null;
+
+    try {
+      switch (mutation.type) {
+        case 'create':
+          serverId = await repository.create(userId, mutation.data);
+          break;
+        case 'update': {
+          const server = await repository.get(userId, mutation.taskId);
+          if (!server) {
+            conflicts.push({
+              id: `${mutation.taskId}-deleted-${mutation.queuedAt}`,
+              taskId: mutation.taskId,
+              taskTitle: String(mutation.updates.title ?? mutation.base.title ?? ''),
+              field: 'deleted',
+              localValue: mutation.updates,
+              serverValue: null,
+              resolution: 'server',
+              detectedAt: new Date()
+            });
+            break;
+          }
+          const merged = mergeUpdate(mutation, server);
+          if (Object.keys(merged.updates).length > 0) {
+            await repository.update(userId, mutation.taskId, merged.updates);
+          }
+          conflicts.push(...merged.conflicts);
+          break;
+        }
+        case 'remove':
+          await repository.remove(userId, mutation.taskId);
+          break;
+        case 'put':
+          await repository.put(userId, { ...mutation.task, id: mutation.taskId });
+          break;
+      }
+    } catch (e) {
+      console.error('Outbox replay stopped, will retry when back online:', e);
+      return;
+    }
+
+    const current = store.read();
+    const remaining = current.mutations.slice(1);
+    store.write({
+      // Point every later mutation for a freshly created task at its real id
+      mutations: serverId
+        ? remaining.map(m => (m.taskId === mutation.taskId ? { ...m, taskId: serverId } : m))
+        : remaining,
+      conflicts: [...current.conflicts, ...conflicts]
+    });
+    if (serverId) onCreated?.(mutation.taskId, serverId);
+  }
+};
@@ -0,0 +1,25 @@
+/**
+ * Firestore Preferences Repository
+ *
+ * Keeps preferences in a `preferences` map on the users/{uid} document,
+ * next to the profile fields written at registration.
+ */
+
+import { doc, onSnapshot, setDoc } from 'firebase/firestore';
+import { db } from '@/services/firebase';
+import { PreferencesRepository } from './types';
+
+export const createFirestorePreferencesRepository = (): PreferencesRepository => ({
+  subscribe(userId, onChange, onError) {
+    return onSnapshot(doc(db, 'users', userId), snapshot => {
+      onChange(snapshot.data()?.preferences ?? {});
+    }, err => {
+      console.error('Preferences listener error:', err);
+      onError?.(err);
+    });
+  },
+
+  async update(userId, changes) {
+    await setDoc(doc(db, 'users', userId), { preferences: changes }, { merge: true });
+  }
+});
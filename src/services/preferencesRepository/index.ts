@@ -0,0 +1,30 @@
+/**
+ * Preferences Repository
+ *
+ * Follows VITE_TASK_BACKEND like the task and category repositories:
+ * Firestore stores preferences on the user document, the browser-only
+ * backends keep them locally.
+ */
+
+import { TaskBackend } from '@/services/taskRepository';
+import { PreferencesRepository } from './types';
+import { createFirestorePreferencesRepository } from './firestore';
+import { createLocalPreferencesRepository } from './local';
+
+export const createPreferencesRepository = (backend: TaskBackend): PreferencesRepository => {
+  switch (backend) {
+    case 'indexeddb':
+      return createLocalPreferencesRepository(true);
+    case 'memory':
+      return createLocalPreferencesRepository(false);
+    case 'firestore':
+    default:
+      return createFirestorePreferencesRepository();
+  }
+};
+
+const configuredBackend = (import.meta.env.VITE_TASK_BACKEND || 'firestore') as TaskBackend;
+
+export const preferencesRepository: PreferencesRepository = createPreferencesRepository(configuredBackend);
+
+export type { PreferencesRepository };
@@ -0,0 +1,50 @@
+/**
+ * Local Preferences Repository
+ *
+ * Used with the browser-only task backends. Preferences are kept in
+ * localStorage, or only in memory when `persist` is false.
+ */
+
+import { UserPreferences } from '@/types';
+import { createListenerRegistry } from '@/services/localStore';
+import { PreferencesRepository } from './types';
+
+const storageKey = (userId: string) => `preferences_${userId}`;
+
+export const createLocalPreferencesRepository = (persist: boolean): PreferencesRepository => {
+  const memory = new Map<string, Partial<UserPreferences>>();
+  const listeners = createListenerRegistry<Partial<UserPreferences>>();
+
+  const read = (userId: string): Partial<UserPreferences> => {
+    if (!persist) return memory.get(userId) ?? {};
+    try {
+      return JSON.parse(localStorage.getItem(storageKey(userId)) || '{}');
+    } catch (e) {
+      console.error('Failed to parse stored preferences:', e);
+      return {};
+    }
+  };
+
+  const write = (userId: string, preferences: Partial<UserPreferences>) => {
+    if (persist) {
+      localStorage.setItem(storageKey(userId), JSON.stringify(preferences));
+    } else {
+      memory.set(userId, preferences);
+    }
+  };
+
+  return {
+    subscribe(userId, onChange) {
+      // The registry delivers lists; preferences are a single record
+      const unsubscribe = listeners.add(userId, ([preferences]) => onChange(preferences));
+      onChange(read(userId));
+      return unsubscribe;
+    },
+
+    async update(userId, changes) {
+      const next = { ...read(userId), ...changes };
+      write(userId, next);
+      listeners.emit(userId, [next]);
+    }
+  };
+};
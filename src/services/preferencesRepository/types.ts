@@ -0,0 +1,16 @@
+import { UserPreferences } from '@/types';
+
+/**
+ * Storage backend for per-user preferences (saved views and similar)
+ */
+export interface PreferencesRepository {
+  /** Subscribe to the stored preferences; missing keys are left out */
+  subscribe: (
+    userId: string,
+    onChange: (preferences: Partial<UserPreferences>) => void,
+    onError?: (error: Error) => void
+  ) => () => void;
+
+  /** Merge changes into the stored preferences */
+  update: (userId: string, changes: Partial<UserPreferences>) => Promise<void>;
+}
@@ -0,0 +1,102 @@
+/**
+ * Service Worker Registration
+ *
+ * Registers public/sw.js, which precaches the app shell and handles
+ * reminder notifications. When a new build has been installed and is
+ * waiting, listeners are told so the app can offer to reload into it.
+ */
+
+const SW_URL = '/sw.js';
+
+// Check for a new build this often while the app stays open
+const UPDATE_CHECK_MS = 60 * 60 * 1000;
+
+// Experimental API not in the DOM typings
+interface PeriodicSyncRegistration extends ServiceWorkerRegistration {
+  periodicSync?: { register: (tag: string, options: { minInterval: number }) => Promise<void> };
+}
+
+type UpdateListener = (waiting: ServiceWorker) => void;
+
+const updateListeners = new Set<UpdateListener>();
+let waitingWorker: ServiceWorker | null = null;
+let registration: Promise<ServiceWorkerRegistration | null> | null = null;
+
+const announceUpdate = (worker: ServiceWorker) => {
+  waitingWorker = worker;
+  updateListeners.forEach(listener => listener(worker));
+};
+
+/**
+ * Watch a registration for a new worker that finishes installing while
+ * an older one still controls the page
+ */
+const watchForUpdates = (reg: ServiceWorkerRegistration) => {
+  if (reg.waiting && navigator.serviceWorker.controller) announceUpdate(reg.waiting);
+
+  reg.addEventListener('updatefound', () => {
+    const installing = reg.installing;
+    installing?.addEventListener('statechange', () => {
+      if (installing.state === 'installed' && navigator.serviceWorker.controller) {
+        announceUpdate(installing);
+      }
+    });
+  });
+
+  setInterval(() => {
+    reg.update().catch(() => {
+      // Offline; try again next time
+    });
+  }, UPDATE_CHECK_MS);
+
+  // Reload once the new worker has taken over
+  let reloading = false;
+  navigator.serviceWorker.addEventListener('controllerchange', () => {
+    if (!waitingWorker || reloading) return;
+    reloading = true;
+    window.location.reload();
+  });
+};
+
+/**
+ * Register the service worker once; resolves to null where unsupported
+ */
+export const registerServiceWorker = (): Promise<ServiceWorkerRegistration | null> => {
+  if (!('serviceWorker' in navigator)) return Promise.resolve(null);
+
+  registration ??= navigator.serviceWorker.register(SW_URL)
+    .then(async reg => {
+      watchForUpdates(reg);
+      // Lets the worker check for due reminders now and then while the app is closed
+      try {
+        await (reg as PeriodicSyncRegistration).periodicSync?.register('reminders', { minInterval: 15 * 60 * 1000 });
+      } catch {
+        // Only available to installed apps in some browsers
+      }
+      return reg;
+    })
+    .catch(err => {
+      console.error('Service worker registration failed:', err);
+      return null;
+    });
+  return registration;
+};
+
+/**
+ * Listen for a new build waiting to take over; fires immediately if one
+ * already is
+ */
+export const onUpdateAvailable = (listener: UpdateListener): (() => void) => {
+  updateListeners.add(listener);
+  if (waitingWorker) listener(waitingWorker);
+  return () => {
+    updateListeners.delete(listener);
+  };
+};
+
+/**
+ * Switch to the waiting build; the page reloads once it has taken over
+ */
+export const applyUpdate = (): void => {
+  waitingWorker?.postMessage({ type: 'skip-waiting' });
+};
@@ -0,0 +1,242 @@
+/**
+ * Firestore Task Repository
+ *
+ * Stores tasks under users/{uid}/tasks. A copy of the last snapshot is kept
+ * in localStorage so the list can still be shown when security rules deny
+ * reads (e.g. an unconfigured project).
+ *
+ * Every document carries an `archived` flag next to `archivedAt`, so the
+ * realtime query can leave archived tasks on the server. Firestore cannot
+ * match documents that lack a field, so once per page load documents
+ * written without the flag (before it existed, or by an older client on
+ * another device) get it written and then show up.
+ */
+
+import {
+  collection,
+  query,
+  where,
+  onSnapshot,
+  getDocs,
+  addDoc,
+  doc,
+  updateDoc,
+  setDoc,
+  deleteDoc,
+  getDoc,
+  serverTimestamp,
+  writeBatch,
+  Timestamp,
+  DocumentData
+} from 'firebase/firestore';
+import { db } from '@/services/firebase';
+import { Task, TaskStatus } from '@/types';
+import { TaskRepository } from './types';
+import { byCreatedAt } from '@/services/localStore';
+
+const cacheKey = (userId: string) => `tasks_${userId}`;
+
+// Firestore's limit on writes per batch
+const BATCH_LIMIT = 500;
+
+/**
+ * Convert a Firestore Timestamp (or anything Date can parse) to a Date
+ */
+const toDate = (value: unknown): Date => {
+  if (value && typeof (value as Timestamp).toDate === 'function') {
+    return (value as Timestamp).toDate();
+  }
+  return new Date(value as string);
+};
+
+/**
+ * Map a Firestore document to our Task type
+ */
+const fromFirestore = (userId: string, id: string, data: DocumentData): Task => ({
+  id,
+  userId,
+  title: data.title,
+  description: data.description,
+  createdAt: toDate(data.createdAt),
+  deadline: toDate(data.deadline),
+  priority: data.priority,
+  status: data.status as TaskStatus,
+  category: data.category ?? undefined,
+  categoryColor: data.categoryColor ?? undefined,
+  recurrence: data.recurrence
+    ? { ...data.recurrence, until: data.recurrence.until ? toDate(data.recurrence.until) : undefined }
+    : undefined,
+  checklist: data.checklist ?? undefined,
+  reminders: data.reminders?.map((r: DocumentData) => ({
+    ...r,
+    snoozedUntil: r.snoozedUntil ? toDate(r.snoozedUntil) : undefined,
+    firedAt: r.firedAt ? toDate(r.firedAt) : undefined
+  })),
+  sortOrder: data.sortOrder ?? undefined,
+  deletedAt: data.deletedAt ? toDate(data.deletedAt) : undefined,
+  completedAt: data.completedAt ? toDate(data.completedAt) : undefined,
+  archivedAt: data.archivedAt ? toDate(data.archivedAt) : undefined,
+  updatedAt: data.updatedAt ? toDate(data.updatedAt) : undefined,
+  changes: data.changes?.map((c: DocumentData) => ({ ...c, changedAt: toDate(c.changedAt) }))
+});
+
+/**
+ * Convert a single value for Firestore: Dates become Timestamps, and
+ * undefined (which Firestore rejects) is dropped from nested objects.
+ */
+const toFirestoreValue = (value: unknown): unknown => {
+  if (value instanceof Date) return Timestamp.fromDate(value);
+  if (Array.isArray(value)) return value.map(toFirestoreValue);
+  if (value && typeof value === 'object') {
+    const result: DocumentData = {};
+    Object.entries(value).forEach(([key, nested]) => {
+      if (nested !== undefined) result[key] = toFirestoreValue(nested);
+    });
+    return result;
+  }
+  return value;
+};
+
+/**
+ * Prepare a partial task for Firestore. Top-level undefined becomes null
+ * so that clearing a field (e.g. category) actually clears it.
+ */
+const toFirestore = (updates: Partial<Task>): DocumentData => {
+  const payload: DocumentData = {};
+  Object.entries(updates).forEach(([key, value]) => {
+    if (key === 'id' || key === 'userId') return;
+    payload[key] = value === undefined ? null : toFirestoreValue(value);
+  });
+  // Keep the queryable flag in step with the date
+  if ('archivedAt' in updates) payload.archived = Boolean(updates.archivedAt);
+  return payload;
+};
+
+const readCache = (userId: string): Task[] => {
+  try {
+    const stored = localStorage.getItem(cacheKey(userId));
+    if (!stored) return [];
+    const parsed = JSON.parse(stored) as DocumentData[];
+    // Dates come back as ISO strings, which the snapshot mapper also accepts
+    return parsed.map(task => fromFirestore(userId, task.id, task));
+  } catch (e) {
+    console.error('Failed to parse stored tasks fallback:', e);
+    return [];
+  }
+};
+
+const writeCache = (userId: string, tasks: Task[]) => {
+  try {
+    localStorage.setItem(cacheKey(userId), JSON.stringify(tasks));
+  } catch (e) {
+    // ignore localStorage errors
+  }
+};
+
+// Users whose documents were checked for the flag since the page loaded
+const backfilled = new Set<string>();
+
+/**
+ * Write the `archived` flag on documents that lack it. Finding them takes a
+ * read of the whole collection, so this runs once per user and page load.
+ */
+const backfillArchivedFlag = async (userId: string) => {
+  if (backfilled.has(userId)) return;
+  backfilled.add(userId);
+
+  const snapshot = await getDocs(collection(db, 'users', userId, 'tasks'));
+  const missing = snapshot.docs.filter(d => typeof d.data().archived !== 'boolean');
+  for (let i = 0; i < missing.length; i += BATCH_LIMIT) {
+    const batch = writeBatch(db);
+    missing.slice(i, i + BATCH_LIMIT).forEach(d => {
+      batch.update(d.ref, { archived: Boolean(d.data().archivedAt) });
+    });
+    await batch.commit();
+  }
+};
+
+export const createFirestoreTaskRepository = (): TaskRepository => ({
+  subscribe(userId, onChange, onError) {
+    const tasksCol = collection(db, 'users', userId, 'tasks');
+    // Ordered on the client, which saves a composite index
+    const q = query(tasksCol, where('archived', '==', false));
+
+    backfillArchivedFlag(userId).catch(err => {
+      // Try again on the next subscription
+      backfilled.delete(userId);
+      console.warn('Failed to backfill archived flag on tasks:', err);
+    });
+
+    return onSnapshot(q, snapshot => {
+      const tasks = snapshot.docs.map(d => fromFirestore(userId, d.id, d.data())).sort(byCreatedAt);
+      writeCache(userId, tasks);
+      onChange(tasks);
+    }, err => {
+      console.error('Tasks realtime listener error:', err);
+      // If permissions prevent reading from Firestore, fall back to the cached copy
+      if (err.code === 'permission-denied' || /permission/i.test(err.message || '')) {
+        console.warn('Firestore permission denied — loading tasks from localStorage fallback.');
+        onChange(readCache(userId));
+      }
+      onError?.(err);
+    });
+  },
+
+  async getArchived(userId) {
+    const snapshot = await getDocs(query(collection(db, 'users', userId, 'tasks'), where('archived', '==', true)));
+    return snapshot.docs.map(d => fromFirestore(userId, d.id, d.data())).sort(byCreatedAt);
+  },
+
+  async get(userId, id) {
+    const snapshot = await getDoc(doc(db, 'users', userId, 'tasks', id));
+    return snapshot.exists() ? fromFirestore(userId, snapshot.id, snapshot.data()) : null;
+  },
+
+  async create(userId, { status, createdAt, ...data }) {
+    const tasksCol = collection(db, 'users', userId, 'tasks');
+    const ref = await addDoc(tasksCol, {
+      ...toFirestore(data),
+      createdAt: createdAt ? Timestamp.fromDate(createdAt) : serverTimestamp(),
+      status: status ?? 'pending',
+      archived: false
+    });
+    return ref.id;
+  },
+
+  async createMany(userId, tasks) {
+    const tasksCol = collection(db, 'users', userId, 'tasks');
+    const ids: string[] = [];
+
+    for (let i = 0; i < tasks.length; i += BATCH_LIMIT) {
+      const batch = writeBatch(db);
+      tasks.slice(i, i + BATCH_LIMIT).forEach(({ status, createdAt, ...data }) => {
+        const ref = doc(tasksCol);
+        batch.set(ref, {
+          ...toFirestore(data),
+          createdAt: createdAt ? Timestamp.fromDate(createdAt) : serverTimestamp(),
+          status: status ?? 'pending',
+          archived: false
+        });
+        ids.push(ref.id);
+      });
+      await batch.commit();
+    }
+    return ids;
+  },
+
+  async put(userId, task) {
+    // Not merged, so fields the task did not have are removed
+    await setDoc(doc(db, 'users', userId, 'tasks', task.id), {
+      ...toFirestore(task),
+      archived: Boolean(task.archivedAt)
+    });
+  },
+
+  async update(userId, id, updates) {
+    await updateDoc(doc(db, 'users', userId, 'tasks', id), toFirestore(updates));
+  },
+
+  async remove(userId, id) {
+    await deleteDoc(doc(db, 'users', userId, 'tasks', id));
+  }
+});
@@ -0,0 +1,32 @@
+/**
+ * Task Repository
+ *
+ * Picks the task storage backend once at startup from VITE_TASK_BACKEND:
+ * - "firestore" (default): users/{uid}/tasks in Cloud Firestore
+ * - "indexeddb": browser-only persistence, no Firebase project needed
+ * - "memory": nothing persisted, for tests and demos
+ */
+
+import { TaskBackend, TaskRepository } from './types';
+import { createFirestoreTaskRepository } from './firestore';
+import { createIndexedDbTaskRepository } from './indexedDb';
+import { createMemoryTaskRepository } from './memory';
+
+export const createTaskRepository = (backend: TaskBackend): TaskRepository => {
+  switch (backend) {
+    case 'indexeddb':
+      return createIndexedDbTaskRepository();
+    case 'memory':
+      return createMemoryTaskRepository();
+    case 'firestore':
+    default:
+      return createFirestoreTaskRepository();
+  }
+};
+
+const configuredBackend = (import.meta.env.VITE_TASK_BACKEND || 'firestore') as TaskBackend;
+
+export const taskRepository: TaskRepository = createTaskRepository(configuredBackend);
+
+export { createFirestoreTaskRepository, createIndexedDbTaskRepository, createMemoryTaskRepository };
+export type { TaskRepository, TaskBackend };
@@ -0,0 +1,105 @@
+/**
+ * IndexedDB Task Repository
+ *
+ * Persists tasks in the browser only, without any Firebase project.
+ * Other open tabs are told about writes through a BroadcastChannel so
+ * their lists stay in sync.
+ */
+
+import { Task } from '@/types';
+import { TaskRepository } from './types';
+import { createListenerRegistry, byCreatedAt, withStore, withTransaction, createStoreChannel } from '@/services/localStore';
+import { generateId } from '@/lib/utils';
+
+const STORE = 'tasks';
+
+export const createIndexedDbTaskRepository = (): TaskRepository => {
+  const listeners = createListenerRegistry<Task>();
+  const channel = createStoreChannel(STORE);
+
+  const listFor = async (userId: string, archived = false): Promise<Task[]> => {
+    const tasks = await withStore(STORE, 'readonly', store => store.index('userId').getAll(userId) as IDBRequest<Task[]>);
+    return tasks.filter(task => Boolean(task.archivedAt) === archived).sort(byCreatedAt);
+  };
+
+  const notify = async (userId: string, broadcast = true) => {
+    listeners.emit(userId, await listFor(userId));
+    if (broadcast) channel?.postMessage(userId);
+  };
+
+  channel?.addEventListener('message', (event: MessageEvent<string>) => {
+    notify(event.data, false).catch(err => console.error('Failed to refresh tasks from IndexedDB:', err));
+  });
+
+  const getTask = (id: string) => withStore(STORE, 'readonly', store => store.get(id) as IDBRequest<Task | undefined>);
+
+  return {
+    subscribe(userId, onChange, onError) {
+      const unsubscribe = listeners.add(userId, onChange);
+      listFor(userId).then(onChange).catch(err => {
+        console.error('Failed to load tasks from IndexedDB:', err);
+        onError?.(err);
+      });
+      return unsubscribe;
+    },
+
+    async getArchived(userId) {
+      return listFor(userId, true);
+    },
+
+    async get(userId, id) {
+      const existing = await getTask(id);
+      return existing && existing.userId === userId ? existing : null;
+    },
+
+    async create(userId, { status, createdAt, ...data }) {
+      const id = generateId();
+      const task: Task = {
+        ...data,
+        id,
+        userId,
+        createdAt: createdAt ?? new Date(),
+        status: status ?? 'pending'
+      };
+      await withStore(STORE, 'readwrite', store => store.add(task));
+      await notify(userId);
+      return id;
+    },
+
+    async createMany(userId, tasks) {
+      const created: Task[] = tasks.map(({ status, createdAt, ...data }) => ({
+        ...data,
+        id: generateId(),
+        userId,
+        createdAt: createdAt ?? new Date(),
+        status: status ?? 'pending'
+      }));
+      // One transaction, so an import is stored completely or not at all
+      await withTransaction(STORE, store => created.forEach(task => store.add(task)));
+      const ids = created.map(task => task.id);
+      await notify(userId);
+      return ids;
+    },
+
+    async put(userId, task) {
+      await withStore(STORE, 'readwrite', store => store.put({ ...task, userId }));
+      await notify(userId);
+    },
+
+    async update(userId, id, updates) {
+      const existing = await getTask(id);
+      if (!existing || existing.userId !== userId) {
+        throw new Error(`Task ${id} not found`);
+      }
+      await withStore(STORE, 'readwrite', store => store.put({ ...existing, ...updates, id, userId }));
+      await notify(userId);
+    },
+
+    async remove(userId, id) {
+      const existing = await getTask(id);
+      if (!existing || existing.userId !== userId) return;
+      await withStore(STORE, 'readwrite', store => store.delete(id));
+      await notify(userId);
+    }
+  };
+};
@@ -0,0 +1,93 @@
+/**
+ * In-Memory Task Repository
+ *
+ * Keeps tasks in a plain Map for the lifetime of the page. Nothing is
+ * persisted, which makes it suitable for tests and demos that should run
+ * without a Firebase project.
+ */
+
+import { Task } from '@/types';
+import { TaskRepository } from './types';
+import { createListenerRegistry, byCreatedAt } from '@/services/localStore';
+import { generateId } from '@/lib/utils';
+
+export const createMemoryTaskRepository = (initialTasks: Task[] = []): TaskRepository => {
+  const store = new Map<string, Task>(initialTasks.map(task => [task.id, { ...task }]));
+  const listeners = createListenerRegistry<Task>();
+
+  const listFor = (userId: string, archived = false) =>
+    Array.from(store.values())
+      .filter(task => task.userId === userId && Boolean(task.archivedAt) === archived)
+      .map(task => ({ ...task }))
+      .sort(byCreatedAt);
+
+  const notify = (userId: string) => listeners.emit(userId, listFor(userId));
+
+  return {
+    subscribe(userId, onChange) {
+      const unsubscribe = listeners.add(userId, onChange);
+      onChange(listFor(userId));
+      return unsubscribe;
+    },
+
+    async getArchived(userId) {
+      return listFor(userId, true);
+    },
+
+    async get(userId, id) {
+      const existing = store.get(id);
+      return existing && existing.userId === userId ? { ...existing } : null;
+    },
+
+    async create(userId, { status, createdAt, ...data }) {
+      const id = generateId();
+      store.set(id, {
+        ...data,
+        id,
+        userId,
+        createdAt: createdAt ?? new Date(),
+        status: status ?? 'pending'
+      });
+      notify(userId);
+      return id;
+    },
+
+    async createMany(userId, tasks) {
+      const ids = tasks.map(({ status, createdAt, ...data }) => {
+        const id = generateId();
+        store.set(id, {
+          ...data,
+          id,
+          userId,
+          createdAt: createdAt ?? new Date(),
+          status: status ?? 'pending'
+        });
+        return id;
+      });
+      notify(userId);
+      return ids;
+    },
+
+    async put(userId, task) {
+      store.set(task.id, { ...task, userId });
+      notify(userId);
+    },
+
+    async update(userId, id, updates) {
+      const existing = store.get(id);
+      if (!existing || existing.userId !== userId) {
+        throw new Error(`Task ${id} not found`);
+      }
+      store.set(id, { ...existing, ...updates, id, userId });
+      notify(userId);
+    },
+
+    async remove(userId, id) {
+      const existing = store.get(id);
+      if (existing && existing.userId === userId) {
+        store.delete(id);
+        notify(userId);
+      }
+    }
+  };
+};
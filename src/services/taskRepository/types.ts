@@ -0,0 +1,52 @@
+import { ImportedTask, Task } from '@/types';
+
+/**
+ * Storage backend for a user's tasks.
+ *
+ * useTasks only talks to this interface, so the app can run against
+ * Firestore, IndexedDB or a throwaway in-memory store without changes.
+ */
+export interface TaskRepository {
+  /**
+   * Subscribe to the user's tasks, archived tasks excluded. The callback
+   * fires with the full list on every change. Returns an unsubscribe function.
+   */
+  subscribe: (
+    userId: string,
+    onChange: (tasks: Task[]) => void,
+    onError?: (error: Error) => void
+  ) => () => void;
+
+  /** Fetch the user's archived tasks, which subscribe leaves out */
+  getArchived: (userId: string) => Promise<Task[]>;
+
+  /** Fetch a single task, or null when it does not exist */
+  get: (userId: string, id: string) => Promise<Task | null>;
+
+  /**
+   * Create a task and resolve with its id. New tasks are pending and
+   * created now, unless an imported task brings its own status and date.
+   */
+  create: (userId: string, data: ImportedTask) => Promise<string>;
+
+  /**
+   * Create several tasks in as few writes as the backend allows (imports).
+   * Status and creation date are kept when given. Resolves with the new ids.
+   */
+  createMany: (userId: string, tasks: ImportedTask[]) => Promise<string[]>;
+
+  /**
+   * Write a whole task under its own id, replacing any current copy.
+   * Used by undo to bring back a deleted or edited task exactly as it was,
+   * including its id and creation date.
+   */
+  put: (userId: string, task: Task) => Promise<void>;
+
+  /** Apply a partial update to an existing task */
+  update: (userId: string, id: string, updates: Partial<Task>) => Promise<void>;
+
+  /** Permanently remove a task */
+  remove: (userId: string, id: string) => Promise<void>;
+}
+
+export type TaskBackend = 'firestore' | 'indexeddb' | 'memory';
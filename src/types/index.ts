@@ -20,6 +20,42 @@ export interface Category {
   color: string;
 }
 
+// Recurrence frequency, modelled on RFC 5545 RRULE FREQ
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+// Weekday codes as used in RRULE BYDAY
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+// RRULE-style recurrence rule for repeating tasks
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  byWeekday?: Weekday[];
+  // Monthly/yearly: which matching weekday of the month (1-4, or -1 for the last)
+  bySetPos?: number;
+  // Occurrences left including the current one
+  count?: number;
+  until?: Date;
+}
+
+// A step inside a task, ordered by `order`
+export interface ChecklistItem {
+  id: string;
+  text: string;
+  completed: boolean;
+  order: number;
+}
+
+// Notification shortly before a task's deadline
+export interface TaskReminder {
+  id: string;
+  minutesBefore: number;
+  // Set by "Snooze" in the notification; the reminder fires again then
+  snoozedUntil?: Date;
+  // When the notification was shown, so it is only shown once
+  firedAt?: Date;
+}
+
 // Main Task interface
 export interface Task {
   id: string;
@@ -32,11 +68,99 @@ export interface Task {
   status: TaskStatus;
   category?: string;
   categoryColor?: string;
+  recurrence?: RecurrenceRule;
+  checklist?: ChecklistItem[];
+  reminders?: TaskReminder[];
+  // Fractional key for the manual sort order (see lib/sortKey)
+  sortOrder?: string;
+  // Set while the task is in the trash
+  deletedAt?: Date;
+  // When the task was last marked completed
+  completedAt?: Date;
+  // Set once the task is archived; archived tasks are not loaded with the rest
+  archivedAt?: Date;
+  // Time of the last edit, used to resolve sync conflicts
+  updatedAt?: Date;
+  // Field edits, oldest first (see lib/taskHistory)
+  changes?: TaskChange[];
+}
+
+// One field edit in a task's history
+export interface TaskChange {
+  field: keyof Task;
+  oldValue: string | null;
+  newValue: string | null;
+  changedAt: Date;
+}
+
+// A field edited both offline and on the server, resolved during sync
+export interface TaskConflict {
+  id: string;
+  taskId: string;
+  taskTitle: string;
+  field: keyof Task | 'deleted';
+  localValue: unknown;
+  serverValue: unknown;
+  resolution: 'local' | 'server';
+  detectedAt: Date;
 }
 
 // Filter options for tasks
 export type FilterType = 'all' | 'completed' | 'pending' | 'high-priority' | 'due-today' | 'overdue';
 
+// Summary counts shown in StatsCards
+export interface TaskStats {
+  total: number;
+  completed: number;
+  pending: number;
+  overdue: number;
+  // Pending tasks with some, but not all, checklist items done
+  inProgress: number;
+  checklistCompleted: number;
+  checklistTotal: number;
+}
+
+// Task list orderings; `smart` is priority, then deadline, then creation
+export type SortStrategy = 'smart' | 'deadline' | 'priority' | 'created' | 'alphabetical' | 'manual' | 'urgency';
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface SortPreference {
+  strategy: SortStrategy;
+  direction: SortDirection;
+}
+
+// How the dashboard lays out tasks
+export type TaskLayout = 'list' | 'board';
+
+// Task field the board columns are built from
+export type BoardGrouping = 'status' | 'priority' | 'category';
+
+export interface BoardSettings {
+  groupBy: BoardGrouping;
+  // Collapsed column ids, per grouping ("priority:low")
+  collapsed: string[];
+}
+
+// Named filter query shown as a chip next to the built-in filters
+export interface SavedView {
+  id: string;
+  name: string;
+  query: string;
+}
+
+// Per-user preferences, synced through the preferences repository
+export interface UserPreferences {
+  savedViews: SavedView[];
+  sort: SortPreference;
+  layout: TaskLayout;
+  board: BoardSettings;
+  // Days a deleted task stays in the trash; 0 keeps it until deleted by hand
+  trashRetentionDays: number;
+  // Days after completion a task is archived; 0 turns auto-archiving off
+  archiveAfterDays: number;
+}
+
 // Auth state
 export interface AuthState {
   user: User | null;
@@ -51,4 +175,14 @@ export interface TaskFormData {
   deadline: Date;
   priority: Priority;
   category?: string;
+  categoryColor?: string;
+  recurrence?: RecurrenceRule;
+  checklist?: ChecklistItem[];
+  reminders?: TaskReminder[];
+}
+
+// A task read from an import file; status and creation date are kept when the file has them
+export interface ImportedTask extends TaskFormData {
+  status?: TaskStatus;
+  createdAt?: Date;
 }
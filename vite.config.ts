@@ -1,15 +1,58 @@
-import { defineConfig } from "vite";
+import { defineConfig, Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
+import fs from "fs";
+import { createHash } from "crypto";
 // Removed lovable-tagger - not needed for DoneZit
 
+/**
+ * Paths of every file under `dir`, relative to it with forward slashes
+ */
+const listFiles = (dir: string, prefix = ""): string[] =>
+  fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) =>
+    entry.isDirectory()
+      ? listFiles(path.join(dir, entry.name), `${prefix}${entry.name}/`)
+      : entry.isFile() ? [`${prefix}${entry.name}`] : []
+  );
+
+/**
+ * Fill the service worker's precache list (public/sw.js) with this build's
+ * files. The version changes whenever any file does, so browsers see a new
+ * worker and the app can offer the update.
+ */
+const precacheServiceWorker = (): Plugin => ({
+  name: "precache-service-worker",
+  apply: "build",
+  writeBundle(options, bundle) {
+    const outDir = options.dir ?? path.resolve(__dirname, "dist");
+    const swPath = path.join(outDir, "sw.js");
+    if (!fs.existsSync(swPath)) return;
+
+    const publicFiles = listFiles(path.resolve(__dirname, "public")).filter((f) => f !== "sw.js");
+    const files = ["/", ...Object.keys(bundle), ...publicFiles]
+      .map((f) => (f.startsWith("/") ? f : `/${f}`))
+      .filter((f, i, all) => all.indexOf(f) === i && !f.endsWith(".map"));
+
+    const hash = createHash("sha256");
+    files.forEach((f) => {
+      const file = path.join(outDir, f === "/" ? "index.html" : f);
+      hash.update(f);
+      if (fs.existsSync(file)) hash.update(fs.readFileSync(file));
+    });
+
+    const precache = JSON.stringify({ version: hash.digest("hex").slice(0, 12), files });
+    const source = fs.readFileSync(swPath, "utf8");
+    fs.writeFileSync(swPath, source.replace(/const PRECACHE = \{[^;]*\};/, `const PRECACHE = ${precache};`));
+  },
+});
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
     host: "::",
     port: 8080,
   },
-  plugins: [react()].filter(Boolean),
+  plugins: [react(), precacheServiceWorker()].filter(Boolean),
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),